@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_ALTERNATIVES, MAX_ALTERNATIVE_ITEMS, translateAlternatives, validateItems } from "../../../lib/batch";
+import { assertWithinDailyLimit, recordDailyUsage } from "../../../lib/dailyLimit";
+import { ERROR_STATUS, classifyError, errorBody } from "../../../lib/errors";
+import { matchGlossary, validateGlossary } from "../../../lib/glossary";
+import { getProfile } from "../../../lib/profiles";
+import { getTranslationProvider } from "../../../lib/providers";
+import type { TranslationItem } from "../../../lib/providers";
+import { estimateRequestTokens } from "../../../lib/tokens";
+
+// Several candidate translations per item for a reviewer to choose from, used to re-translate
+// rows that already have a translation. The translation memory is neither read nor written:
+// a candidate only becomes a translation once the reviewer picks it.
+//   request:  {"items":[{"id":"12","text":"..."}],"count":3,"profile":"id","glossary":[]}
+//   response: {"alternatives":{"12":["...","..."]},"usage":{...},"provider":"openai"}
+export async function POST(req: NextRequest) {
+  try {
+    // Resolve the provider inside the function to avoid build-time errors
+    const provider = getTranslationProvider();
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Request body must be a JSON object" },
+        { status: 400 }
+      );
+    }
+    const { items, count, profile: profileId, glossary = [] } = body;
+
+    const profile = getProfile(profileId);
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown profile "${profileId}"` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { error: "Items array is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_ALTERNATIVES) {
+      return NextResponse.json(
+        { error: `count must be a whole number from 1 to ${MAX_ALTERNATIVES}` },
+        { status: 400 }
+      );
+    }
+
+    const validationError = items.length > MAX_ALTERNATIVE_ITEMS
+      ? `At most ${MAX_ALTERNATIVE_ITEMS} items can be sent per request, got ${items.length}`
+      : validateItems(items) ?? validateGlossary(glossary);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const itemsToProcess: TranslationItem[] = items;
+    await assertWithinDailyLimit(estimateRequestTokens(itemsToProcess, count));
+
+    // Only the glossary terms that occur in this request go into the prompt
+    const requestProfile = { ...profile, glossary: matchGlossary(glossary, itemsToProcess.map(item => item.text)) };
+    const { alternatives, usage } = await translateAlternatives(provider, itemsToProcess, count, requestProfile);
+    await recordDailyUsage(usage);
+
+    return NextResponse.json({
+      alternatives,
+      usage,
+      provider: provider.name
+    });
+  } catch (rawError) {
+    console.error("Alternatives error:", rawError);
+    const error = classifyError(rawError);
+    return NextResponse.json(errorBody(error), { status: ERROR_STATUS[error.code] });
+  }
+}
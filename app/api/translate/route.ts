@@ -1,96 +1,131 @@
-import OpenAI from "openai";
 import { NextRequest, NextResponse } from "next/server";
+import { translateItems, validateItems } from "../../lib/batch";
+import { assertWithinDailyLimit, recordDailyUsage } from "../../lib/dailyLimit";
+import { ERROR_STATUS, classifyError, errorBody } from "../../lib/errors";
+import { matchGlossary, validateGlossary } from "../../lib/glossary";
+import { getTranslationMemory, partitionCached, rememberTranslations } from "../../lib/memory";
+import { getProfile } from "../../lib/profiles";
+import { getTranslationProvider } from "../../lib/providers";
+import type { TranslationItem } from "../../lib/providers";
+import { estimateRequestTokens } from "../../lib/tokens";
 
 export async function POST(req: NextRequest) {
   try {
-    // Initialize OpenAI client inside the function to avoid build-time errors
-    const openai = new OpenAI({ 
-      apiKey: process.env.OPENAI_API_KEY 
-    });
+    // Resolve the provider inside the function to avoid build-time errors
+    const provider = getTranslationProvider();
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Request body must be a JSON object" },
+        { status: 400 }
+      );
+    }
+    const { text, context, items, profile: profileId, glossary = [] } = body;
+
+    const profile = getProfile(profileId);
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown profile "${profileId}"` },
+        { status: 400 }
+      );
+    }
+
+    const glossaryError = validateGlossary(glossary);
+    if (glossaryError) {
+      return NextResponse.json(
+        { error: glossaryError },
+        { status: 400 }
+      );
+    }
+
+    const memory = await getTranslationMemory();
 
-    const { text, texts } = await req.json();
-    
-    // Handle batch processing (multiple texts)
-    if (texts && Array.isArray(texts)) {
-      if (texts.length === 0) {
+    // Handle batch processing (items keyed by entry ID)
+    if (items && Array.isArray(items)) {
+      const validationError = validateItems(items);
+      if (validationError) {
         return NextResponse.json(
-          { error: "Texts array cannot be empty" }, 
+          { error: validationError },
           { status: 400 }
         );
       }
 
-      // Process up to 100 texts in one request
-      const textsToProcess = texts.slice(0, 100);
-      const batchContent = textsToProcess.map((t, index) => `${index + 1}. ${t}`).join('\n');
-
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { 
-            role: "system", 
-            content: "You are a Football Manager translator. Translate English into natural Indonesian (semi-formal). Use natural and easy-to-understand Indonesian language. Examples: 'We dominated the game' → 'Kita benar-benar menguasai pertandingan.', 'Board expects a top-half finish' → 'Manajemen berharap kita bisa finis di papan atas.', 'Transfer budget adjusted' → 'Dana transfer sudah disesuaikan.' Keep placeholders like [%number#1] unchanged. Avoid slang like 'nguasain' or 'udah', and avoid overly formal language. IMPORTANT: You will receive numbered texts. Return ONLY the translated texts in the same numbered format, one per line. Do not add explanations or additional formatting." 
-          },
-          { 
-            role: "user", 
-            content: batchContent 
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000
-      });
+      // validateItems caps the request size; translateItems packs the items into provider-sized chunks
+      const itemsToProcess: TranslationItem[] = items;
+
+      // Serve what the translation memory already knows, send only the rest to the provider
+      const { cached, uncached } = partitionCached(memory, itemsToProcess, profile.id, glossary);
+
+      if (uncached.length > 0) {
+        await assertWithinDailyLimit(estimateRequestTokens(uncached));
+      }
+
+      // Only the glossary terms that occur in this request go into the prompt
+      const requestProfile = { ...profile, glossary: matchGlossary(glossary, uncached.map(item => item.text)) };
+
+      const { translations, missing, usage, error } = uncached.length > 0
+        ? await translateItems(provider, uncached, requestProfile)
+        : { translations: {}, missing: [], usage: undefined };
+      await recordDailyUsage(usage);
+
+      await rememberTranslations(
+        memory,
+        provider,
+        uncached
+          .filter(item => translations[item.id] !== undefined)
+          .map(item => ({ text: item.text, context: item.context, variant: item.variant, translation: translations[item.id] })),
+        profile.id,
+        glossary
+      );
 
-      const batchTranslation = completion.choices[0].message.content;
-      
-      // Parse the numbered responses back into array
-      const translatedTexts = batchTranslation
-        ?.split('\n')
-        .filter(line => line.trim())
-        .map(line => line.replace(/^\d+\.\s*/, '').trim()) || [];
-
-      return NextResponse.json({ 
-        translatedTexts: translatedTexts,
-        processedCount: textsToProcess.length
+      return NextResponse.json({
+        translations,
+        cached,
+        missing,
+        usage,
+        processedCount: itemsToProcess.length,
+        provider: provider.name,
+        // Part of the batch was translated before the provider failed; the rest is in missing
+        ...(error && { failure: errorBody(error) })
       });
     }
-    
+
     // Handle single text processing (backward compatibility)
     if (!text) {
       return NextResponse.json(
-        { error: "Text or texts array is required" }, 
+        { error: "Text or items array is required" },
         { status: 400 }
       );
     }
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { 
-          role: "system", 
-          content: "You are a Football Manager translator. Translate English into natural Indonesian (semi-formal). Use natural and easy-to-understand Indonesian language. Examples: 'We dominated the game' → 'Kita benar-benar menguasai pertandingan.', 'Board expects a top-half finish' → 'Manajemen berharap kita bisa finis di papan atas.', 'Transfer budget adjusted' → 'Dana transfer sudah disesuaikan.' Keep placeholders like [%number#1] unchanged. Avoid slang like 'nguasain' or 'udah', and avoid overly formal language. IMPORTANT: Return ONLY the translated text without quotes, explanations, or additional formatting." 
-        },
-        { 
-          role: "user", 
-          content: text 
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 1000
-    });
+    const cachedTranslation = memory?.lookup(text, context, profile.id, undefined, glossary);
+    if (cachedTranslation !== undefined) {
+      return NextResponse.json({
+        translatedText: cachedTranslation,
+        cached: true,
+        provider: provider.name
+      });
+    }
 
-    const translation = completion.choices[0].message.content;
-    
-    return NextResponse.json({ 
-      translatedText: translation 
+    await assertWithinDailyLimit(estimateRequestTokens([{ text, context }]));
+
+    const requestProfile = { ...profile, glossary: matchGlossary(glossary, [text]) };
+    const { text: translation, usage } = await provider.translate(context ? `${text} [CONTEXT: ${context}]` : text, requestProfile);
+    await recordDailyUsage(usage);
+
+    await rememberTranslations(memory, provider, [{ text, context, translation: translation.trim() }], profile.id, glossary);
+
+    return NextResponse.json({
+      translatedText: translation,
+      cached: false,
+      usage,
+      provider: provider.name
     });
-    
-  } catch (error: any) {
-    console.error("Translation error:", error);
-    return NextResponse.json(
-      { 
-        error: "Translation failed", 
-        details: error.message 
-      }, 
-      { status: 500 }
-    );
+
+  } catch (rawError) {
+    console.error("Translation error:", rawError);
+    const error = classifyError(rawError);
+    return NextResponse.json(errorBody(error), { status: ERROR_STATUS[error.code] });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { translateItems, validateItems } from "../../../lib/batch";
+import { assertWithinDailyLimit, recordDailyUsage } from "../../../lib/dailyLimit";
+import { ERROR_STATUS, classifyError, errorBody } from "../../../lib/errors";
+import { matchGlossary, validateGlossary } from "../../../lib/glossary";
+import { getTranslationMemory, partitionCached, rememberTranslations } from "../../../lib/memory";
+import { getProfile } from "../../../lib/profiles";
+import { getTranslationProvider } from "../../../lib/providers";
+import type { TranslationItem } from "../../../lib/providers";
+import { estimateRequestTokens } from "../../../lib/tokens";
+
+// Streaming variant of the batch branch of /api/translate. The response is NDJSON, one event per line:
+//   {"type":"item","id":"12","translation":"...","cached":false}  as soon as each item is parsed
+//   {"type":"usage","usage":{"model":"gpt-4o-mini","inputTokens":900,...}}  after each provider call
+//   {"type":"done","missing":["7"],"processedCount":100,"provider":"openai"}
+//   {"type":"error","error":"Translation failed","code":"rate_limit","details":"...","retryAfterMs":20000}
+// Items already sent stay valid if the connection drops before "done".
+export async function POST(req: NextRequest) {
+  try {
+    // Resolve the provider inside the function to avoid build-time errors
+    const provider = getTranslationProvider();
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Request body must be a JSON object" },
+        { status: 400 }
+      );
+    }
+    const { items, profile: profileId, glossary = [] } = body;
+
+    const profile = getProfile(profileId);
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown profile "${profileId}"` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { error: "Items array is required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateItems(items) ?? validateGlossary(glossary);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // validateItems caps the request size; translateItems packs the items into provider-sized chunks
+    const itemsToProcess: TranslationItem[] = items;
+    const itemsById = new Map(itemsToProcess.map(item => [item.id, item]));
+    const memory = await getTranslationMemory();
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let open = true;
+        const send = (event: object) => {
+          if (!open) return;
+          try {
+            controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+          } catch {
+            // Client went away; keep translating so the results still reach translation memory
+            open = false;
+          }
+        };
+
+        try {
+          const { cached, uncached } = partitionCached(memory, itemsToProcess, profile.id, glossary);
+          for (const [id, translation] of Object.entries(cached)) {
+            send({ type: "item", id, translation, cached: true });
+          }
+
+          if (uncached.length > 0) {
+            await assertWithinDailyLimit(estimateRequestTokens(uncached));
+          }
+
+          // Only the glossary terms that occur in this request go into the prompt
+          const requestProfile = { ...profile, glossary: matchGlossary(glossary, uncached.map(item => item.text)) };
+
+          const { missing, error } = uncached.length > 0
+            ? await translateItems(provider, uncached, requestProfile, {
+                onItem: (id, translation) => {
+                  send({ type: "item", id, translation, cached: false });
+
+                  const item = itemsById.get(id);
+                  if (item) {
+                    void rememberTranslations(memory, provider, [{ text: item.text, context: item.context, variant: item.variant, translation }], profile.id, glossary);
+                  }
+                },
+                // Sent per call rather than once at the end so a dropped connection still reports what was billed
+                onUsage: usage => {
+                  send({ type: "usage", usage });
+                  void recordDailyUsage(usage);
+                }
+              })
+            : { missing: [] };
+
+          // The translated items are already out, so the client only retries what is left
+          if (error) {
+            send({ type: "error", ...errorBody(error) });
+            return;
+          }
+
+          send({
+            type: "done",
+            missing,
+            processedCount: itemsToProcess.length,
+            provider: provider.name
+          });
+        } catch (rawError) {
+          console.error("Streaming translation error:", rawError);
+          send({ type: "error", ...errorBody(classifyError(rawError)) });
+        } finally {
+          if (open) controller.close();
+        }
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache"
+      }
+    });
+
+  } catch (rawError) {
+    console.error("Translation error:", rawError);
+    const error = classifyError(rawError);
+    return NextResponse.json(errorBody(error), { status: ERROR_STATUS[error.code] });
+  }
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+
+interface AlternativesPickerProps {
+  /** Translation the line has now */
+  current: string;
+  candidates: string[];
+  /** edited is set when the text is no longer the candidate as the provider gave it */
+  onPick: (text: string, edited: boolean) => void;
+}
+
+// Candidates from a re-translate side by side with the current text; each can be edited before it is used
+export default function AlternativesPicker({ current, candidates, onPick }: AlternativesPickerProps) {
+  const [drafts, setDrafts] = useState(candidates);
+
+  return (
+    <div className="mt-2 grid gap-2" style={{ gridTemplateColumns: `repeat(${candidates.length + 1}, minmax(0, 1fr))` }}>
+      <div className="p-2 text-xs bg-gray-50 border border-gray-200 rounded">
+        <div className="font-medium text-gray-600 mb-1">Sekarang</div>
+        <div className="text-gray-700 break-words">{current || <span className="italic text-gray-400">kosong</span>}</div>
+      </div>
+      {drafts.map((draft, index) => (
+        <div key={index} className="p-2 text-xs bg-blue-50 border border-blue-200 rounded flex flex-col">
+          <div className="flex items-center justify-between font-medium text-blue-700 mb-1">
+            <span>Alternatif {index + 1}</span>
+            <button
+              onClick={() => onPick(draft, draft !== candidates[index])}
+              disabled={!draft.trim()}
+              className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              Pakai
+            </button>
+          </div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDrafts(prev => prev.map((text, i) => i === index ? e.target.value : text))}
+            className="flex-1 min-h-[60px] p-1 border border-blue-100 rounded resize-none bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
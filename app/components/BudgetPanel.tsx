@@ -0,0 +1,79 @@
+'use client';
+
+import { formatSpend } from '../lib/budget';
+import type { Budget, BudgetUnit } from '../lib/budget';
+
+interface BudgetPanelProps {
+  budget: Budget;
+  onBudgetChange: (budget: Budget) => void;
+  projectSpent: number;
+  runSpent: number;
+  disabled?: boolean;
+}
+
+export default function BudgetPanel({ budget, onBudgetChange, projectSpent, runSpent, disabled }: BudgetPanelProps) {
+  const parseLimit = (value: string) => {
+    const limit = Number(value);
+    return value.trim() === '' || !(limit > 0) ? null : limit;
+  };
+
+  const rows = [
+    { key: 'projectLimit' as const, label: 'Budget project', spent: projectSpent },
+    { key: 'runLimit' as const, label: 'Budget per run', spent: runSpent }
+  ];
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-medium text-gray-800">Batas Biaya</span>
+        <select
+          value={budget.unit}
+          onChange={(e) => onBudgetChange({ ...budget, unit: e.target.value as BudgetUnit })}
+          disabled={disabled}
+          className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+        >
+          <option value="usd">USD</option>
+          <option value="tokens">Tokens</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rows.map(({ key, label, spent }) => {
+          const limit = budget[key];
+          const ratio = limit ? Math.min(1, spent / limit) : 0;
+          return (
+            <div key={key} className="bg-white p-3 rounded-lg border border-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-gray-700">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={budget.unit === 'usd' ? '0.01' : '1000'}
+                  placeholder="Tanpa batas"
+                  value={limit ?? ''}
+                  onChange={(e) => onBudgetChange({ ...budget, [key]: parseLimit(e.target.value) })}
+                  disabled={disabled}
+                  className="w-32 px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+                />
+              </div>
+              <div className="bg-gray-200 rounded-full h-2 mb-1">
+                <div
+                  className={`h-2 rounded-full transition-all duration-300 ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-orange-400' : 'bg-green-500'}`}
+                  style={{ width: `${ratio * 100}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Terpakai {formatSpend(spent, budget.unit)}
+                {limit !== null && ` dari ${formatSpend(limit, budget.unit)}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        Translasi dijeda sebelum grup batch berikutnya jika diperkirakan melewati batas, lalu meminta konfirmasi.
+      </p>
+    </div>
+  );
+}
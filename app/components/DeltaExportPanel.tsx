@@ -0,0 +1,88 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { diffAgainstBaseline } from '../lib/baseline';
+import type { Baseline, Delta } from '../lib/baseline';
+import type { LTFEntry } from '../lib/entries';
+
+interface DeltaExportPanelProps {
+  entries: LTFEntry[];
+  /** Snapshots recorded at each export, oldest first */
+  baselines: Baseline[];
+  onExportDelta: (baseline: Baseline, delta: Delta) => void;
+  onExportChangelog: (baseline: Baseline, delta: Delta) => void;
+  onDeleteBaseline: (id: string) => void;
+  disabled?: boolean;
+}
+
+export default function DeltaExportPanel({
+  entries,
+  baselines,
+  onExportDelta,
+  onExportChangelog,
+  onDeleteBaseline,
+  disabled
+}: DeltaExportPanelProps) {
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+
+  // Defaults to the latest export
+  const baseline = baselines.find(item => item.id === baselineId) ?? baselines[baselines.length - 1];
+  const delta = useMemo(() => baseline ? diffAgainstBaseline(entries, baseline) : null, [entries, baseline]);
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="font-medium text-gray-800">Delta export</span>
+        {baseline && delta ? (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center space-x-2 text-gray-600">
+              <span>Sejak:</span>
+              <select
+                value={baseline.id}
+                onChange={(e) => setBaselineId(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+              >
+                {baselines.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {new Date(item.createdAt).toLocaleString('id-ID')} · {item.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span className="text-gray-600">
+              {delta.counts.added} baru · {delta.counts.modified} diubah · {delta.counts.removed} dihapus
+            </span>
+            <button
+              onClick={() => onExportDelta(baseline, delta)}
+              disabled={disabled || delta.changes.length === 0}
+              className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              Export delta .ltf
+            </button>
+            <button
+              onClick={() => onExportChangelog(baseline, delta)}
+              disabled={disabled}
+              className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              Changelog JSON
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(`Hapus baseline ${baseline.label}? Delta tidak bisa lagi dibuat sejak export ini.`)) {
+                  setBaselineId(null);
+                  onDeleteBaseline(baseline.id);
+                }
+              }}
+              disabled={disabled}
+              className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+            >
+              Hapus baseline
+            </button>
+          </div>
+        ) : (
+          <span className="text-sm text-gray-500">Baseline dicatat setiap kali Export LTF</span>
+        )}
+      </div>
+    </div>
+  );
+}
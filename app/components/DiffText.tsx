@@ -0,0 +1,21 @@
+'use client';
+
+import { diffWords } from '../lib/diff';
+
+interface DiffTextProps {
+  before: string;
+  after: string;
+}
+
+// Word diff with removed words struck through and added words highlighted
+export default function DiffText({ before, after }: DiffTextProps) {
+  return (
+    <>
+      {diffWords(before, after).map((part, index) =>
+        part.type === 'same' ? <span key={index}>{part.text}</span>
+          : part.type === 'removed' ? <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+          : <ins key={index} className="bg-green-100 text-green-700 no-underline">{part.text}</ins>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { formatLabel } from '../lib/encoding';
+import type { TextFormat } from '../lib/encoding';
+import type { LineEnding } from '../lib/ltf';
+
+interface FileFormatPanelProps {
+  detectedFormat: TextFormat;
+  detectedLineEnding: LineEnding | 'mixed' | null;
+  /** null keeps the format of the uploaded file */
+  exportFormat: TextFormat | null;
+  onExportFormatChange: (format: TextFormat | null) => void;
+  /** null keeps each line's own terminator */
+  exportLineEnding: LineEnding | null;
+  onExportLineEndingChange: (lineEnding: LineEnding | null) => void;
+}
+
+const EXPORT_FORMATS: TextFormat[] = [
+  { encoding: 'utf-8', bom: false },
+  { encoding: 'utf-8', bom: true },
+  { encoding: 'utf-16le', bom: true },
+  { encoding: 'utf-16be', bom: true },
+  { encoding: 'windows-1252', bom: false }
+];
+
+const LINE_ENDING_LABELS: Record<LineEnding, string> = {
+  '\n': 'LF',
+  '\r\n': 'CRLF',
+  '\r': 'CR'
+};
+
+const formatKey = ({ encoding, bom }: TextFormat) => `${encoding}${bom ? '+bom' : ''}`;
+
+export default function FileFormatPanel({
+  detectedFormat,
+  detectedLineEnding,
+  exportFormat,
+  onExportFormatChange,
+  exportLineEnding,
+  onExportLineEndingChange
+}: FileFormatPanelProps) {
+  const lineEndingLabel = detectedLineEnding === null ? '-'
+    : detectedLineEnding === 'mixed' ? 'Campuran'
+    : LINE_ENDING_LABELS[detectedLineEnding];
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-600">
+      <span>
+        Format file: <span className="font-mono text-gray-800">{formatLabel(detectedFormat)} · {lineEndingLabel}</span>
+      </span>
+
+      <label className="flex items-center space-x-2">
+        <span>Encoding export:</span>
+        <select
+          value={exportFormat ? formatKey(exportFormat) : 'original'}
+          onChange={(e) => onExportFormatChange(EXPORT_FORMATS.find(format => formatKey(format) === e.target.value) ?? null)}
+          className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+        >
+          <option value="original">Sama seperti file asli</option>
+          {EXPORT_FORMATS.map(format => (
+            <option key={formatKey(format)} value={formatKey(format)}>{formatLabel(format)}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center space-x-2">
+        <span>Line ending:</span>
+        <select
+          value={exportLineEnding ? LINE_ENDING_LABELS[exportLineEnding] : 'original'}
+          onChange={(e) => onExportLineEndingChange(e.target.value === 'CRLF' ? '\r\n' : e.target.value === 'LF' ? '\n' : null)}
+          className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+        >
+          <option value="original">Sama seperti file asli</option>
+          <option value="LF">LF</option>
+          <option value="CRLF">CRLF</option>
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import type { LTFEntry } from '../lib/entries';
+import { findReplacements } from '../lib/replace';
+import type { ReplaceMatch, ReplaceOptions } from '../lib/replace';
+import type { SearchMode } from '../lib/search';
+import DiffText from './DiffText';
+
+interface FindReplacePanelProps {
+  entries: LTFEntry[];
+  /** Entries the table filter shows; undefined while no filter is active */
+  filteredIndexes?: number[];
+  /** Applied as one step of the undo history */
+  onApply: (matches: ReplaceMatch[], options: ReplaceOptions) => void;
+  disabled?: boolean;
+}
+
+const MODE_LABELS: Record<SearchMode, string> = {
+  plain: 'Teks',
+  word: 'Kata utuh',
+  regex: 'Regex'
+};
+
+// A replace across a large file can touch thousands of lines; the preview grows on request
+const PAGE_SIZE = 100;
+
+export default function FindReplacePanel({
+  entries,
+  filteredIndexes,
+  onApply,
+  disabled
+}: FindReplacePanelProps) {
+  const [showPanel, setShowPanel] = useState(false);
+  const [options, setOptions] = useState<ReplaceOptions>({ find: '', replace: '', mode: 'plain', caseSensitive: false });
+  const [onlyFiltered, setOnlyFiltered] = useState(false);
+  const [preview, setPreview] = useState<ReplaceMatch[] | null>(null);
+  // Positions in the preview that are not going to be applied
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ReplaceOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const runPreview = () => {
+    try {
+      const scope = onlyFiltered && filteredIndexes ? filteredIndexes : undefined;
+      setPreview(findReplacements(entries, options, scope));
+      setExcluded(new Set());
+      setVisibleCount(PAGE_SIZE);
+      setError(null);
+    } catch (e) {
+      setPreview(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const toggle = (position: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(position)) next.delete(position);
+      else next.add(position);
+      return next;
+    });
+  };
+
+  const apply = (matches: ReplaceMatch[]) => {
+    onApply(matches, options);
+    setPreview(null);
+  };
+
+  const selected = preview?.filter((_, position) => !excluded.has(position)) ?? [];
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-800">Cari & ganti terjemahan</span>
+        <button
+          onClick={() => setShowPanel(prev => !prev)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showPanel ? 'Tutup' : 'Buka'}
+        </button>
+      </div>
+
+      {showPanel && (
+        <div className="mt-3 text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={options.find}
+              onChange={(e) => update({ find: e.target.value })}
+              placeholder="Cari, misalnya Manajemen"
+              className={`px-3 py-1.5 border rounded text-gray-800 ${error ? 'border-red-400' : 'border-gray-300'}`}
+            />
+            <input
+              type="text"
+              value={options.replace}
+              onChange={(e) => update({ replace: e.target.value })}
+              placeholder="Ganti dengan, misalnya Direksi"
+              className="px-3 py-1.5 border border-gray-300 rounded text-gray-800"
+            />
+            <select
+              value={options.mode}
+              onChange={(e) => update({ mode: e.target.value as SearchMode })}
+              className="px-2 py-1.5 border border-gray-300 rounded text-gray-800"
+            >
+              {(Object.keys(MODE_LABELS) as SearchMode[]).map(mode => (
+                <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-1 text-gray-600">
+              <input
+                type="checkbox"
+                checked={options.caseSensitive}
+                onChange={(e) => update({ caseSensitive: e.target.checked })}
+              />
+              <span>Aa</span>
+            </label>
+            {filteredIndexes && (
+              <label className="flex items-center space-x-1 text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={onlyFiltered}
+                  onChange={(e) => {
+                    setOnlyFiltered(e.target.checked);
+                    setPreview(null);
+                  }}
+                />
+                <span>Hanya hasil filter ({filteredIndexes.length})</span>
+              </label>
+            )}
+            <button
+              onClick={runPreview}
+              disabled={disabled || !options.find}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              Preview
+            </button>
+          </div>
+          <div className="mt-1 text-xs text-gray-500">
+            Placeholder [...] dan {'{...}'} tidak ikut diganti. Mode regex mendukung $1 di teks pengganti.
+          </div>
+
+          {error && <div className="mt-2 text-red-600">Regex tidak valid: {error}</div>}
+
+          {preview && (
+            <div className="mt-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <span className="text-gray-700">
+                  {preview.length} baris di {new Set(preview.map(match => match.index)).size} entry akan berubah
+                </span>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => apply(selected)}
+                    disabled={disabled || selected.length === 0}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    Ganti yang dipilih ({selected.length})
+                  </button>
+                  <button
+                    onClick={() => apply(preview)}
+                    disabled={disabled || preview.length === 0}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    Ganti semua ({preview.length})
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-2 max-h-96 overflow-y-auto">
+                <table className="w-full border-collapse">
+                  <tbody>
+                    {preview.slice(0, visibleCount).map((match, position) => (
+                      <tr key={`${match.index}.${match.stringIndex}`} className="border-t border-gray-200 text-gray-800 align-top">
+                        <td className="px-2 py-1">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.has(position)}
+                            onChange={() => toggle(position)}
+                          />
+                        </td>
+                        <td className="px-2 py-1 font-mono whitespace-nowrap">
+                          {entries[match.index]?.key}
+                          {match.stringIndex > 1 && <span className="text-gray-500"> STR-{match.stringIndex}</span>}
+                        </td>
+                        <td className="px-2 py-1 break-words">
+                          <DiffText before={match.before} after={match.after} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {visibleCount < preview.length && (
+                  <button
+                    onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+                    className="mt-2 text-blue-600 hover:text-blue-800"
+                  >
+                    Tampilkan {Math.min(PAGE_SIZE, preview.length - visibleCount)} lagi
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { glossaryToCsv, parseGlossaryCsv } from '../lib/glossary';
+import type { GlossaryEntry } from '../lib/glossary';
+
+interface GlossaryPanelProps {
+  glossary: GlossaryEntry[];
+  onGlossaryChange: (glossary: GlossaryEntry[]) => void;
+  /** Translated entries that miss a required glossary term */
+  violationCount: number;
+  disabled?: boolean;
+}
+
+export default function GlossaryPanel({ glossary, onGlossaryChange, violationCount, disabled }: GlossaryPanelProps) {
+  const [showEntries, setShowEntries] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const updateEntry = (index: number, changes: Partial<GlossaryEntry>) => {
+    onGlossaryChange(glossary.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  // Imported rows replace existing entries with the same source term, the rest are appended
+  const importCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      const importedSources = new Set(imported.map(entry => entry.source.toLowerCase()));
+      onGlossaryChange([
+        ...glossary.filter(entry => !importedSources.has(entry.source.toLowerCase())),
+        ...imported
+      ]);
+      setShowEntries(true);
+    } catch (error) {
+      console.error('Glossary import error:', error);
+      alert('Gagal membaca file CSV glosarium!');
+    } finally {
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([glossaryToCsv(glossary)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'glossary.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-800">
+          Glosarium ({glossary.length} istilah)
+          {violationCount > 0 && (
+            <span className="ml-2 text-sm text-orange-600">· {violationCount} entry tidak sesuai glosarium</span>
+          )}
+        </span>
+        <div className="flex items-center space-x-3">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={importCsv}
+            className="hidden"
+            id="glossary-import"
+          />
+          <label
+            htmlFor="glossary-import"
+            className={`text-sm ${disabled ? 'text-gray-400 pointer-events-none' : 'text-blue-600 hover:text-blue-800 cursor-pointer'}`}
+          >
+            Import CSV
+          </label>
+          <button
+            onClick={exportCsv}
+            disabled={glossary.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => setShowEntries(prev => !prev)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showEntries ? 'Tutup glosarium' : 'Atur glosarium'}
+          </button>
+        </div>
+      </div>
+
+      {showEntries && (
+        <div className="mt-4">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="text-left py-1">English</th>
+                <th className="text-left py-1">Terjemahan wajib</th>
+                <th className="text-left py-1">Jangan diterjemahkan</th>
+                <th className="text-left py-1">Catatan</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {glossary.map((entry, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <input
+                      value={entry.source}
+                      onChange={(e) => updateEntry(index, { source: e.target.value })}
+                      disabled={disabled}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-gray-800"
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      value={entry.doNotTranslate ? entry.source : entry.target}
+                      onChange={(e) => updateEntry(index, { target: e.target.value })}
+                      disabled={disabled || entry.doNotTranslate}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-gray-800 disabled:bg-gray-100"
+                    />
+                  </td>
+                  <td className="pr-2 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={entry.doNotTranslate}
+                      onChange={(e) => updateEntry(index, { doNotTranslate: e.target.checked })}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <input
+                      value={entry.notes || ''}
+                      onChange={(e) => updateEntry(index, { notes: e.target.value || undefined })}
+                      disabled={disabled}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-gray-800"
+                    />
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => onGlossaryChange(glossary.filter((_, i) => i !== index))}
+                      disabled={disabled}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label={`Hapus ${entry.source}`}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button
+            onClick={() => onGlossaryChange([...glossary, { source: '', target: '', doNotTranslate: false }])}
+            disabled={disabled}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Tambah istilah
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import type { History, OperationKind } from '../lib/history';
+
+interface HistoryPanelProps {
+  history: History;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Undo the given number of operations at once */
+  onUndoSteps: (steps: number) => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<OperationKind, string> = {
+  edit: 'Edit',
+  translate: 'Terjemahan',
+  replace: 'Replace',
+  import: 'Import',
+  review: 'Review'
+};
+
+export default function HistoryPanel({ history, onUndo, onRedo, onUndoSteps, disabled }: HistoryPanelProps) {
+  const [showList, setShowList] = useState(false);
+  const latest = history.past[history.past.length - 1];
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="font-medium text-gray-800">
+          Riwayat ({history.past.length})
+          {latest && <span className="ml-2 text-sm font-normal text-gray-500">· terakhir: {latest.label}</span>}
+        </span>
+        <div className="flex items-center space-x-3 text-sm">
+          <button
+            onClick={onUndo}
+            disabled={disabled || history.past.length === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            title="Ctrl+Z"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || history.future.length === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            title="Ctrl+Shift+Z / Ctrl+Y"
+          >
+            Redo
+          </button>
+          <button
+            onClick={() => setShowList(prev => !prev)}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            {showList ? 'Tutup riwayat' : 'Lihat riwayat'}
+          </button>
+        </div>
+      </div>
+
+      {showList && (
+        <div className="mt-3 max-h-80 overflow-y-auto">
+          <table className="w-full text-sm border-collapse">
+            <tbody>
+              {/* Redoable operations greyed out above the current state, newest first */}
+              {history.future.slice().reverse().map((operation, index) => (
+                <tr key={`future-${index}`} className="border-t border-gray-200 text-gray-400">
+                  <td className="px-2 py-1">{KIND_LABELS[operation.kind]}</td>
+                  <td className="px-2 py-1 break-all">{operation.label}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">{operation.edits.length} entry</td>
+                  <td className="px-2 py-1 whitespace-nowrap">{new Date(operation.at).toLocaleTimeString('id-ID')}</td>
+                  <td className="px-2 py-1"></td>
+                </tr>
+              ))}
+              {history.past.slice().reverse().map((operation, index) => (
+                <tr key={`past-${index}`} className="border-t border-gray-200 text-gray-800">
+                  <td className="px-2 py-1">{KIND_LABELS[operation.kind]}</td>
+                  <td className="px-2 py-1 break-all">{operation.label}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">{operation.edits.length} entry</td>
+                  <td className="px-2 py-1 whitespace-nowrap">{new Date(operation.at).toLocaleTimeString('id-ID')}</td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      onClick={() => onUndoSteps(index + 1)}
+                      disabled={disabled}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-400 whitespace-nowrap"
+                    >
+                      Batalkan sampai sini
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {history.past.length === 0 && history.future.length === 0 && (
+            <div className="text-sm text-gray-500">Belum ada perubahan</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import type { LtfDiagnostic, LtfDiagnosticCode } from '../lib/ltf';
+
+interface ImportReportPanelProps {
+  diagnostics: LtfDiagnostic[];
+  /** Jump to an entry in the table */
+  onGoToEntry: (entryIndex: number) => void;
+}
+
+const DIAGNOSTIC_LABELS: Record<LtfDiagnosticCode, string> = {
+  'duplicate-key': 'Key duplikat',
+  'orphan-string': 'Baris STR tanpa key',
+  'missing-str1': 'Tidak ada STR-1',
+  'duplicate-string': 'Baris STR-n ganda',
+  'unbalanced-brackets': 'Kurung placeholder tidak seimbang',
+  'unknown-header': 'Header tidak dikenal',
+  'multiple-comments': 'Lebih dari satu [COMMENT: ...]',
+  'unknown-line': 'Baris tidak dikenal'
+};
+
+// Large files can produce thousands of findings; the list grows on request
+const PAGE_SIZE = 100;
+
+export default function ImportReportPanel({ diagnostics, onGoToEntry }: ImportReportPanelProps) {
+  const [showList, setShowList] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const counts = new Map<LtfDiagnosticCode, number>();
+  for (const { code } of diagnostics) counts.set(code, (counts.get(code) ?? 0) + 1);
+
+  return (
+    <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg text-left">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-orange-800">
+          Laporan import: {diagnostics.length} masalah
+          <span className="ml-2 text-sm font-normal text-orange-700">
+            {Array.from(counts, ([code, count]) => `${DIAGNOSTIC_LABELS[code]} (${count})`).join(' · ')}
+          </span>
+        </span>
+        <button
+          onClick={() => setShowList(prev => !prev)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showList ? 'Tutup laporan' : 'Lihat detail'}
+        </button>
+      </div>
+
+      {showList && (
+        <div className="mt-3 max-h-80 overflow-y-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="px-2 py-1 text-left font-medium">Baris</th>
+                <th className="px-2 py-1 text-left font-medium">Masalah</th>
+                <th className="px-2 py-1 text-left font-medium">Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.slice(0, visibleCount).map(({ code, line, entry, detail }, index) => (
+                <tr key={index} className="border-t border-orange-200 text-gray-800">
+                  <td className="px-2 py-1 font-mono">{line + 1}</td>
+                  <td className="px-2 py-1">{DIAGNOSTIC_LABELS[code]}</td>
+                  <td className="px-2 py-1 font-mono break-all">
+                    {entry !== undefined ? (
+                      <button
+                        onClick={() => onGoToEntry(entry)}
+                        className="text-left text-blue-600 hover:text-blue-800 underline"
+                      >
+                        {detail}
+                      </button>
+                    ) : detail}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleCount < diagnostics.length && (
+            <button
+              onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              Tampilkan {Math.min(PAGE_SIZE, diagnostics.length - visibleCount)} lagi
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
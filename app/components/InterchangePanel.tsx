@@ -0,0 +1,94 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { INTERCHANGE_FORMATS, formatForFileName } from '../lib/interchange';
+import type { InterchangeFormat, InterchangeUnit } from '../lib/interchange';
+
+interface InterchangePanelProps {
+  onExport: (format: InterchangeFormat, onlyFiltered: boolean) => void;
+  /** Units read from an XLIFF, PO or CSV file picked by the user */
+  onImport: (units: InterchangeUnit[], format: InterchangeFormat) => void;
+  /** Entries the table filter shows; undefined while no filter is active */
+  filteredCount?: number;
+  disabled?: boolean;
+}
+
+const ACCEPT = INTERCHANGE_FORMATS.flatMap(format => format.extensions).join(',');
+
+export default function InterchangePanel({ onExport, onImport, filteredCount, disabled }: InterchangePanelProps) {
+  const [formatId, setFormatId] = useState(INTERCHANGE_FORMATS[0].id);
+  const [onlyFiltered, setOnlyFiltered] = useState(false);
+  const exportFiltered = onlyFiltered && filteredCount !== undefined;
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const format = formatForFileName(file.name);
+      if (!format) {
+        alert(`Format file tidak dikenal. Gunakan ${ACCEPT}`);
+        return;
+      }
+      onImport(format.read(await file.text()), format);
+    } catch (error) {
+      console.error('Interchange import error:', error);
+      alert('Gagal membaca file import!');
+    } finally {
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="font-medium text-gray-800">Review di CAT tool / spreadsheet</span>
+        <div className="flex items-center space-x-3">
+          <select
+            value={formatId}
+            onChange={(e) => setFormatId(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+          >
+            {INTERCHANGE_FORMATS.map(format => (
+              <option key={format.id} value={format.id}>{format.label}</option>
+            ))}
+          </select>
+          {filteredCount !== undefined && (
+            <label className="flex items-center space-x-1 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={onlyFiltered}
+                onChange={(e) => setOnlyFiltered(e.target.checked)}
+              />
+              <span>Hanya hasil filter ({filteredCount})</span>
+            </label>
+          )}
+          <button
+            onClick={() => onExport(INTERCHANGE_FORMATS.find(format => format.id === formatId) ?? INTERCHANGE_FORMATS[0], exportFiltered)}
+            disabled={disabled || (exportFiltered && filteredCount === 0)}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Export
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={ACCEPT}
+            onChange={importFile}
+            className="hidden"
+            id="interchange-import"
+          />
+          <label
+            htmlFor="interchange-import"
+            className={`text-sm ${disabled ? 'text-gray-400 pointer-events-none' : 'text-blue-600 hover:text-blue-800 cursor-pointer'}`}
+          >
+            Import
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
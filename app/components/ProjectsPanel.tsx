@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProjectSummary } from '../lib/projects';
+
+interface ProjectsPanelProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+export default function ProjectsPanel({ projects, activeProjectId, onOpen, onDelete, disabled }: ProjectsPanelProps) {
+  const [showList, setShowList] = useState(false);
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-800">
+          Project tersimpan ({projects.length})
+          <span className="ml-2 text-sm font-normal text-gray-500">· disimpan otomatis di browser</span>
+        </span>
+        <button
+          onClick={() => setShowList(prev => !prev)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showList ? 'Tutup daftar' : 'Buka project'}
+        </button>
+      </div>
+
+      {showList && (
+        <table className="mt-3 w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-gray-600">
+              <th className="px-2 py-1 text-left font-medium">File</th>
+              <th className="px-2 py-1 text-left font-medium">Progress</th>
+              <th className="px-2 py-1 text-left font-medium">Terakhir disimpan</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {projects.map(project => (
+              <tr key={project.id} className="border-t border-gray-200 text-gray-800">
+                <td className="px-2 py-1">
+                  {project.fileName}
+                  {project.id === activeProjectId && <span className="ml-2 text-xs text-green-600">(terbuka)</span>}
+                  {project.interrupted && <span className="ml-2 text-xs text-orange-600">Translate All terhenti</span>}
+                </td>
+                <td className="px-2 py-1">
+                  {project.translatedCount}/{project.entryCount} entries
+                </td>
+                <td className="px-2 py-1">{new Date(project.updatedAt).toLocaleString('id-ID')}</td>
+                <td className="px-2 py-1 text-right space-x-3">
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    disabled={disabled || project.id === activeProjectId}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    Buka
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Hapus project ${project.fileName}? Terjemahannya akan hilang.`)) onDelete(project.id);
+                    }}
+                    disabled={disabled}
+                    className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+                  >
+                    Hapus
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { EMPTY_QUERY, isQueryActive } from '../lib/search';
+import type { EntryQuery, SearchMode } from '../lib/search';
+
+interface SearchPanelProps {
+  query: EntryQuery;
+  onQueryChange: (query: EntryQuery) => void;
+  /** Key prefixes with their entry counts, most common first */
+  keyPrefixes: Array<[string, number]>;
+  matchCount: number;
+  totalCount: number;
+  /** Message of an invalid regex */
+  error: string | null;
+}
+
+const MODE_LABELS: Record<SearchMode, string> = {
+  plain: 'Teks',
+  word: 'Kata utuh',
+  regex: 'Regex'
+};
+
+// Tri-state facets: either, yes, no
+const FACET_OPTIONS: Array<{ value: string, label: string }> = [
+  { value: '', label: 'Semua' },
+  { value: 'yes', label: 'Ada' },
+  { value: 'no', label: 'Tidak ada' }
+];
+
+const facetValue = (value: boolean | null) => value === null ? '' : value ? 'yes' : 'no';
+const parseFacet = (value: string) => value === '' ? null : value === 'yes';
+
+export default function SearchPanel({ query, onQueryChange, keyPrefixes, matchCount, totalCount, error }: SearchPanelProps) {
+  const update = (changes: Partial<EntryQuery>) => onQueryChange({ ...query, ...changes });
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={query.text}
+          onChange={(e) => update({ text: e.target.value })}
+          placeholder="Cari key, English, terjemahan atau komentar..."
+          className={`flex-1 min-w-[16rem] px-3 py-1.5 border rounded text-gray-800 ${error ? 'border-red-400' : 'border-gray-300'}`}
+        />
+        <select
+          value={query.mode}
+          onChange={(e) => update({ mode: e.target.value as SearchMode })}
+          className="px-2 py-1.5 border border-gray-300 rounded text-gray-800"
+        >
+          {(Object.keys(MODE_LABELS) as SearchMode[]).map(mode => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-1 text-gray-600">
+          <input
+            type="checkbox"
+            checked={query.caseSensitive}
+            onChange={(e) => update({ caseSensitive: e.target.checked })}
+          />
+          <span>Aa</span>
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-gray-600">
+        <label className="flex items-center space-x-2">
+          <span>Komentar:</span>
+          <select
+            value={facetValue(query.hasComment)}
+            onChange={(e) => update({ hasComment: parseFacet(e.target.value) })}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-800"
+          >
+            {FACET_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Placeholder:</span>
+          <select
+            value={facetValue(query.hasPlaceholders)}
+            onChange={(e) => update({ hasPlaceholders: parseFacet(e.target.value) })}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-800"
+          >
+            {FACET_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Prefix key:</span>
+          <select
+            value={query.keyPrefix ?? ''}
+            onChange={(e) => update({ keyPrefix: e.target.value || null })}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-800 max-w-[14rem]"
+          >
+            <option value="">Semua</option>
+            {keyPrefixes.map(([prefix, count]) => (
+              <option key={prefix} value={prefix}>{prefix} ({count})</option>
+            ))}
+          </select>
+        </label>
+        {isQueryActive(query) && (
+          <>
+            <span>{matchCount} dari {totalCount} entry</span>
+            <button
+              onClick={() => onQueryChange(EMPTY_QUERY)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Reset filter
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <div className="mt-2 text-red-600">Regex tidak valid: {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { MAX_ALTERNATIVES } from '../lib/batch';
+
+interface SelectionBarProps {
+  selectedCount: number;
+  /** Entries the table shows under the current filter */
+  visibleCount: number;
+  onSelectAllVisible: () => void;
+  onClear: () => void;
+  alternativeCount: number;
+  onAlternativeCountChange: (count: number) => void;
+  onRetranslate: () => void;
+  disabled?: boolean;
+}
+
+export default function SelectionBar({
+  selectedCount,
+  visibleCount,
+  onSelectAllVisible,
+  onClear,
+  alternativeCount,
+  onAlternativeCountChange,
+  onRetranslate,
+  disabled
+}: SelectionBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-600">
+      <span>{selectedCount} entry dipilih</span>
+      <button onClick={onSelectAllVisible} className="text-blue-600 hover:text-blue-800">
+        Pilih semua hasil filter ({visibleCount})
+      </button>
+      {selectedCount > 0 && (
+        <button onClick={onClear} className="text-blue-600 hover:text-blue-800">
+          Hapus pilihan
+        </button>
+      )}
+      <span className="text-gray-400">· Shift+klik untuk memilih rentang</span>
+      <div className="flex items-center space-x-2 ml-auto">
+        <label className="flex items-center space-x-1">
+          <span>Alternatif:</span>
+          <select
+            value={alternativeCount}
+            onChange={(e) => onAlternativeCountChange(parseInt(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-800"
+          >
+            {Array.from({ length: MAX_ALTERNATIVES - 1 }, (_, i) => i + 2).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={onRetranslate}
+          disabled={disabled || selectedCount === 0}
+          className="px-3 py-1.5 rounded font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          Re-translate terpilih
+        </button>
+      </div>
+    </div>
+  );
+}
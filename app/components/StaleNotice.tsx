@@ -0,0 +1,27 @@
+'use client';
+
+import DiffText from './DiffText';
+
+interface StaleNoticeProps {
+  /** English the current translation was made for */
+  previousEnglish: string;
+  english: string;
+  onAccept: () => void;
+}
+
+// Shown under an entry whose English changed in a patch upgrade
+export default function StaleNotice({ previousEnglish, english, onAccept }: StaleNoticeProps) {
+  return (
+    <div className="mt-2 p-2 text-xs bg-orange-50 border border-orange-200 rounded">
+      <div className="flex items-center justify-between text-orange-700 font-medium">
+        <span>English berubah sejak diterjemahkan</span>
+        <button onClick={onAccept} className="text-blue-600 hover:text-blue-800">
+          Terjemahan masih benar
+        </button>
+      </div>
+      <div className="mt-1 text-gray-700 break-words">
+        <DiffText before={previousEnglish} after={english} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import type { EntryStatus, TranslationOrigin } from '../lib/entries';
+
+type ReviewStatus = Exclude<EntryStatus, 'untranslated' | 'fallback'>;
+
+interface StatusBadgeProps {
+  status: EntryStatus;
+  origin?: TranslationOrigin;
+  /** Shown as a picker for entries that have text; omitted for a read-only badge */
+  onChange?: (status: ReviewStatus) => void;
+  disabled?: boolean;
+}
+
+export const STATUS_LABELS: Record<EntryStatus, string> = {
+  untranslated: 'Belum',
+  machine: 'Mesin',
+  fallback: 'Fallback',
+  reviewed: 'Direview',
+  approved: 'Disetujui'
+};
+
+export const STATUS_STYLES: Record<EntryStatus, string> = {
+  untranslated: 'bg-gray-100 text-gray-600 border-gray-300',
+  machine: 'bg-blue-50 text-blue-700 border-blue-200',
+  fallback: 'bg-orange-50 text-orange-700 border-orange-200',
+  reviewed: 'bg-green-50 text-green-700 border-green-200',
+  approved: 'bg-emerald-100 text-emerald-800 border-emerald-300'
+};
+
+const ORIGIN_LABELS: Record<TranslationOrigin, string> = {
+  machine: 'diterjemahkan AI',
+  human: 'diedit manual',
+  cache: 'dari translation memory',
+  fallback: 'AI menolak, teks English dipakai'
+};
+
+const REVIEW_STATUSES: ReviewStatus[] = ['machine', 'reviewed', 'approved'];
+
+export default function StatusBadge({ status, origin, onChange, disabled }: StatusBadgeProps) {
+  const className = `mt-1 inline-block px-2 py-0.5 border rounded text-xs font-sans ${STATUS_STYLES[status]}`;
+  const title = origin ? ORIGIN_LABELS[origin] : undefined;
+
+  if (!onChange || status === 'untranslated') {
+    return <span className={className} title={title}>{STATUS_LABELS[status]}</span>;
+  }
+
+  // A fallback entry can be accepted as is, e.g. a name that stays in English
+  return (
+    <select
+      value={status}
+      onChange={(e) => onChange(e.target.value as ReviewStatus)}
+      disabled={disabled}
+      className={className}
+      title={title}
+    >
+      {status === 'fallback' && <option value="fallback" disabled>{STATUS_LABELS.fallback}</option>}
+      {REVIEW_STATUSES.map(item => (
+        <option key={item} value={item}>{STATUS_LABELS[item]}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { ENTRY_STATUSES } from '../lib/entries';
+import type { EntryStatus } from '../lib/entries';
+import { STATUS_LABELS, STATUS_STYLES } from './StatusBadge';
+
+interface StatusFilterBarProps {
+  counts: Record<EntryStatus, number>;
+  filter: EntryStatus | null;
+  onFilterChange: (status: EntryStatus | null) => void;
+}
+
+export default function StatusFilterBar({ counts, filter, onFilterChange }: StatusFilterBarProps) {
+  const total = ENTRY_STATUSES.reduce((sum, status) => sum + counts[status], 0);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <span className="text-gray-600">Status:</span>
+      <button
+        onClick={() => onFilterChange(null)}
+        className={`px-2 py-1 border rounded ${filter === null ? 'border-gray-700 text-gray-900 font-medium' : 'border-gray-300 text-gray-600'}`}
+      >
+        Semua ({total})
+      </button>
+      {ENTRY_STATUSES.map(status => (
+        <button
+          key={status}
+          onClick={() => onFilterChange(filter === status ? null : status)}
+          className={`px-2 py-1 border rounded ${STATUS_STYLES[status]} ${filter === status ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+        >
+          {STATUS_LABELS[status]} ({counts[status]})
+        </button>
+      ))}
+    </div>
+  );
+}
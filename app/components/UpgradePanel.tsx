@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import type { LTFEntry } from '../lib/entries';
+import type { UpgradeReport } from '../lib/upgrade';
+
+interface UpgradePanelProps {
+  /** Called with the English .ltf of the new FM version */
+  onUpgradeFile: (file: File, input: HTMLInputElement) => void;
+  report: UpgradeReport | null;
+  onDismissReport: () => void;
+  archivedEntries: LTFEntry[];
+  /** Entries still marked stale in the current project */
+  staleCount: number;
+  disabled?: boolean;
+}
+
+export default function UpgradePanel({
+  onUpgradeFile,
+  report,
+  onDismissReport,
+  archivedEntries,
+  staleCount,
+  disabled
+}: UpgradePanelProps) {
+  const [showArchive, setShowArchive] = useState(false);
+
+  const selectFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onUpgradeFile(file, event.target);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-800">
+          Upgrade patch FM
+          {staleCount > 0 && (
+            <span className="ml-2 text-sm text-orange-600">· {staleCount} entry perlu dicek (English berubah)</span>
+          )}
+        </span>
+        <div className="flex items-center space-x-3">
+          <input
+            type="file"
+            accept=".ltf"
+            onChange={selectFile}
+            className="hidden"
+            id="upgrade-upload"
+          />
+          <label
+            htmlFor="upgrade-upload"
+            className={`text-sm ${disabled ? 'text-gray-400 pointer-events-none' : 'text-blue-600 hover:text-blue-800 cursor-pointer'}`}
+          >
+            Upgrade ke file versi baru
+          </label>
+          {archivedEntries.length > 0 && (
+            <button
+              onClick={() => setShowArchive(prev => !prev)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              {showArchive ? 'Tutup arsip' : `Arsip (${archivedEntries.length})`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {report && (
+        <div className="mt-3 text-sm text-gray-700">
+          <div className="font-medium">Laporan upgrade</div>
+          <ul className="mt-1 space-y-0.5">
+            <li>Terjemahan dibawa (English sama): {report.carried}</li>
+            <li className={report.stale > 0 ? 'text-orange-600' : ''}>Perlu dicek (English berubah): {report.stale}</li>
+            <li>Key lama belum diterjemahkan: {report.untranslated}</li>
+            <li>Key baru: {report.added}</li>
+            <li>Key dihapus (diarsipkan): {report.archived}</li>
+          </ul>
+          <button onClick={onDismissReport} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+            Tutup laporan
+          </button>
+        </div>
+      )}
+
+      {showArchive && archivedEntries.length > 0 && (
+        <div className="mt-4 max-h-64 overflow-y-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="px-2 py-1 text-left font-medium">Key</th>
+                <th className="px-2 py-1 text-left font-medium">English</th>
+                <th className="px-2 py-1 text-left font-medium">Terjemahan</th>
+              </tr>
+            </thead>
+            <tbody>
+              {archivedEntries.map((entry, index) => (
+                <tr key={index} className="border-t border-gray-200 text-gray-800">
+                  <td className="px-2 py-1 font-mono">{entry.key}</td>
+                  <td className="px-2 py-1">{entry.english}</td>
+                  <td className="px-2 py-1">{entry.translation}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { DEFAULT_PRICES, ledgerTotals } from '../lib/pricing';
+import type { ModelPrice, UsageLedger } from '../lib/pricing';
+
+interface UsagePanelProps {
+  sessionUsage: UsageLedger;
+  projectUsage: UsageLedger;
+  prices: ModelPrice[];
+  onPricesChange: (prices: ModelPrice[]) => void;
+  usdToIdr: number;
+  onUsdToIdrChange: (rate: number) => void;
+}
+
+const formatNumber = (value: number) => value.toLocaleString('id-ID');
+const formatUsd = (value: number) => `$${value.toFixed(4)}`;
+const formatIdr = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+export default function UsagePanel({
+  sessionUsage,
+  projectUsage,
+  prices,
+  onPricesChange,
+  usdToIdr,
+  onUsdToIdrChange
+}: UsagePanelProps) {
+  const [showPrices, setShowPrices] = useState(false);
+
+  const columns = [
+    { label: 'Sesi ini', totals: ledgerTotals(sessionUsage, prices) },
+    { label: 'Project ini', totals: ledgerTotals(projectUsage, prices) }
+  ];
+  const unpricedModels = Array.from(new Set(columns.flatMap(({ totals }) => totals.unpricedModels)));
+
+  const updatePrice = (index: number, field: keyof ModelPrice, value: string) => {
+    onPricesChange(prices.map((price, i) => {
+      if (i !== index) return price;
+      return field === 'model' ? { ...price, model: value } : { ...price, [field]: Number(value) || 0 };
+    }));
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-left">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-medium text-gray-800">Token & Biaya (usage asli dari provider)</span>
+        <button
+          onClick={() => setShowPrices(prev => !prev)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showPrices ? 'Tutup tabel harga' : 'Atur tabel harga'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {columns.map(({ label, totals }) => (
+          <div key={label} className="bg-white p-3 rounded-lg border border-gray-200">
+            <div className="text-sm font-semibold text-gray-700 mb-2">{label}</div>
+            <div className="grid grid-cols-2 gap-1 text-sm text-gray-600">
+              <span>Input tokens</span>
+              <span className="text-right font-mono">{formatNumber(totals.inputTokens)}</span>
+              <span>Cached tokens</span>
+              <span className="text-right font-mono">{formatNumber(totals.cachedTokens)}</span>
+              <span>Output tokens</span>
+              <span className="text-right font-mono">{formatNumber(totals.outputTokens)}</span>
+              <span>Request</span>
+              <span className="text-right font-mono">{formatNumber(totals.requests)}</span>
+              <span className="font-semibold text-gray-800">Biaya</span>
+              <span className="text-right font-mono font-semibold text-gray-800">
+                {formatUsd(totals.costUsd)} · {formatIdr(totals.costUsd * usdToIdr)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {unpricedModels.length > 0 && (
+        <p className="mt-2 text-xs text-orange-600">
+          Tidak ada harga untuk model: {unpricedModels.join(', ')}. Biayanya dihitung $0 sampai ditambahkan ke tabel harga.
+        </p>
+      )}
+
+      {showPrices && (
+        <div className="mt-4">
+          <div className="flex items-center space-x-2 mb-3 text-sm text-gray-600">
+            <span>Kurs 1 USD =</span>
+            <input
+              type="number"
+              min="0"
+              value={usdToIdr}
+              onChange={(e) => onUsdToIdrChange(Number(e.target.value) || 0)}
+              className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+            />
+            <span>IDR</span>
+          </div>
+
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="text-left py-1">Model</th>
+                <th className="text-left py-1">Input $/1M</th>
+                <th className="text-left py-1">Cached $/1M</th>
+                <th className="text-left py-1">Output $/1M</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {prices.map((price, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <input
+                      value={price.model}
+                      onChange={(e) => updatePrice(index, 'model', e.target.value)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-gray-800"
+                    />
+                  </td>
+                  {(['inputPer1M', 'cachedInputPer1M', 'outputPer1M'] as const).map(field => (
+                    <td key={field} className="pr-2 py-1">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        value={price[field]}
+                        onChange={(e) => updatePrice(index, field, e.target.value)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded text-gray-800"
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1">
+                    <button
+                      onClick={() => onPricesChange(prices.filter((_, i) => i !== index))}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label={`Hapus ${price.model}`}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex space-x-3 mt-2">
+            <button
+              onClick={() => onPricesChange([...prices, { model: '', inputPer1M: 0, cachedInputPer1M: 0, outputPer1M: 0 }])}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Tambah model
+            </button>
+            <button
+              onClick={() => onPricesChange(DEFAULT_PRICES)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Reset ke default
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { getEntryString, stringIndexes } from './entries';
+import type { LTFEntry } from './entries';
+
+// Snapshots of the translations at each export, so a later delta export can ship only what changed
+
+export interface Baseline {
+  id: string;
+  createdAt: number;
+  /** Name of the exported file */
+  label: string;
+  /** STR-n texts by entry id (see entryIds) */
+  strings: Record<string, Record<number, string>>;
+}
+
+export type ChangeType = 'added' | 'modified';
+
+export interface StringChange {
+  /** n of the STR-n line */
+  variant: number;
+  /** Absent for lines the baseline did not have */
+  before?: string;
+  after: string;
+}
+
+export interface EntryChange {
+  /** Index into the current entries */
+  index: number;
+  key: string;
+  type: ChangeType;
+  strings: StringChange[];
+}
+
+export interface Delta {
+  changes: EntryChange[];
+  counts: Record<ChangeType | 'removed', number>;
+  /** Ids of baseline entries the project no longer has */
+  removed: string[];
+}
+
+/** Stable id per entry: the key, with "#n" for the n-th repeat of a key that occurs more than once */
+export function entryIds(entries: LTFEntry[]): string[] {
+  const seen = new Map<string, number>();
+  return entries.map(entry => {
+    const count = (seen.get(entry.key) ?? 0) + 1;
+    seen.set(entry.key, count);
+    return count === 1 ? entry.key : `${entry.key}#${count}`;
+  });
+}
+
+export function createBaseline(entries: LTFEntry[], label: string): Baseline {
+  const ids = entryIds(entries);
+  const strings: Baseline['strings'] = {};
+  entries.forEach((entry, index) => {
+    const texts: Record<number, string> = {};
+    for (const stringIndex of stringIndexes(entry)) texts[stringIndex] = getEntryString(entry, stringIndex);
+    strings[ids[index]] = texts;
+  });
+
+  const createdAt = Date.now();
+  return { id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`, createdAt, label, strings };
+}
+
+export function diffAgainstBaseline(entries: LTFEntry[], baseline: Baseline): Delta {
+  const ids = entryIds(entries);
+  const changes: EntryChange[] = [];
+
+  entries.forEach((entry, index) => {
+    const before = baseline.strings[ids[index]];
+    const strings = stringIndexes(entry)
+      .map(variant => ({ variant, before: before?.[variant], after: getEntryString(entry, variant) }))
+      // A line missing from the baseline only counts once it has a translation
+      .filter(change => change.before === undefined ? change.after !== '' : change.before !== change.after);
+
+    if (!before) {
+      changes.push({ index, key: entry.key, type: 'added', strings });
+    } else if (strings.length > 0) {
+      changes.push({ index, key: entry.key, type: 'modified', strings });
+    }
+  });
+
+  const current = new Set(ids);
+  const removed = Object.keys(baseline.strings).filter(id => !current.has(id));
+
+  return {
+    changes,
+    counts: {
+      added: changes.filter(change => change.type === 'added').length,
+      modified: changes.filter(change => change.type === 'modified').length,
+      removed: removed.length
+    },
+    removed
+  };
+}
+
+/** JSON changelog shipped next to a delta .ltf */
+export function deltaChangelog(delta: Delta, baseline: Baseline, fileName: string): string {
+  return JSON.stringify({
+    file: fileName,
+    baseline: { label: baseline.label, createdAt: new Date(baseline.createdAt).toISOString() },
+    generatedAt: new Date().toISOString(),
+    counts: delta.counts,
+    changes: delta.changes.map(({ key, type, strings }) => ({ key, type, strings })),
+    removed: delta.removed
+  }, null, 2);
+}
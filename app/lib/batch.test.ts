@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBatchStreamParser, parseBatchResponse, translateItems } from './batch';
+import { TranslationError } from './errors';
+import { getProfile } from './profiles';
+import type { BatchTranslation, TranslationItem, TranslationProvider } from './providers/types';
+
+const IDS = ['a', 'b', 'c'];
+
+/** Feed the text to a stream parser in pieces of chunkSize characters and collect what it reports */
+function stream(text: string, chunkSize: number, ids = IDS): [string, string][] {
+  const items: [string, string][] = [];
+  const parser = createBatchStreamParser(ids, (id, translation) => items.push([id, translation]));
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    parser.push(text.slice(offset, offset + chunkSize));
+  }
+  return items;
+}
+
+describe('parseBatchResponse', () => {
+  it('reads the translations of the requested IDs', () => {
+    expect(parseBatchResponse('{"translations": {"a": " Gol ", "b": "Pelatih"}}', IDS)).toEqual({ a: 'Gol', b: 'Pelatih' });
+  });
+
+  it('unescapes quotes, backslashes, line breaks and unicode', () => {
+    const raw = String.raw`{"translations": {"a": "Dia berkata \"ya\"", "b": "C:\\tim\nbaris", "c": "caf\u00e9"}}`;
+    expect(parseBatchResponse(raw, IDS)).toEqual({ a: 'Dia berkata "ya"', b: 'C:\\tim\nbaris', c: 'café' });
+  });
+
+  it('strips a markdown fence around the JSON', () => {
+    expect(parseBatchResponse('```json\n{"translations": {"a": "Gol"}}\n```', IDS)).toEqual({ a: 'Gol' });
+  });
+
+  it('drops unknown IDs, empty values and values that are not strings', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const raw = '{"translations": {"a": "Gol", "x": "Lain", "b": "  ", "c": 3}}';
+    expect(parseBatchResponse(raw, IDS)).toEqual({ a: 'Gol' });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('keeps the last value of a duplicate ID, as JSON.parse does', () => {
+    expect(parseBatchResponse('{"translations": {"a": "Satu", "a": "Dua"}}', IDS)).toEqual({ a: 'Dua' });
+  });
+
+  it('returns nothing for a truncated or misshapen answer', () => {
+    expect(parseBatchResponse('{"translations": {"a": "Gol", "b": "Pela', IDS)).toEqual({});
+    expect(parseBatchResponse('{"translations": ["Gol"]}', IDS)).toEqual({});
+    expect(parseBatchResponse('"Gol"', IDS)).toEqual({});
+    expect(parseBatchResponse(null, IDS)).toEqual({});
+  });
+});
+
+describe('createBatchStreamParser', () => {
+  const answer = String.raw`{"translations": {"a": "Dia berkata \"ya\"", "b" : "C:\\tim\nbaris", "c": "caf\u00e9"}}`;
+  const expected = [['a', 'Dia berkata "ya"'], ['b', 'C:\\tim\nbaris'], ['c', 'café']];
+
+  it('reports the same items whatever the chunk size', () => {
+    for (const chunkSize of [1, 2, 3, 5, 16, answer.length]) {
+      expect(stream(answer, chunkSize)).toEqual(expected);
+    }
+  });
+
+  it('reports an item as soon as its closing quote arrives', () => {
+    const items: string[] = [];
+    const parser = createBatchStreamParser(IDS, id => items.push(id));
+    parser.push('{"translations": {"a": "Gol", "b": "Pel');
+    expect(items).toEqual(['a']);
+    parser.push('atih"');
+    expect(items).toEqual(['a', 'b']);
+    expect(parser.text).toBe('{"translations": {"a": "Gol", "b": "Pelatih"');
+  });
+
+  it('does not split on a backslash at the end of a chunk', () => {
+    expect(stream(String.raw`{"translations": {"a": "x\"y"}}`, 26)).toEqual([['a', 'x"y']]);
+  });
+
+  it('skips unknown IDs and reports a duplicate ID once', () => {
+    const raw = '{"translations": {"x": "Lain", "a": "Satu", "a": "Dua", "b": ""}}';
+    expect(stream(raw, 4)).toEqual([['a', 'Satu']]);
+  });
+
+  it('keeps what it reported when the answer is cut off', () => {
+    expect(stream('{"translations": {"a": "Gol", "b": "Pela', 3)).toEqual([['a', 'Gol']]);
+  });
+
+  it('stops at a value that is not a string', () => {
+    expect(stream('{"translations": {"a": "Gol", "b": 3, "c": "Klub"}}', 7)).toEqual([['a', 'Gol']]);
+  });
+});
+
+/**
+ * Provider whose answer to each translateBatch call is decided by the test. Every call is
+ * recorded as the list of IDs it was given; answer throws to fail the call.
+ */
+function stubProvider(answer: (items: TranslationItem[], call: number) => Partial<BatchTranslation>, maxItems = 100) {
+  const calls: string[][] = [];
+  const provider: TranslationProvider = {
+    name: 'stub',
+    batchLimits: { maxItems, maxInputTokens: 100000, maxOutputTokens: 100000 },
+    translate: async text => ({ text }),
+    translateBatch: async items => {
+      calls.push(items.map(item => item.id));
+      return { translations: {}, ...answer(items, calls.length) };
+    }
+  };
+  return { provider, calls };
+}
+
+const itemsFor = (ids: string[]): TranslationItem[] => ids.map(id => ({ id, text: `text ${id}` }));
+const translate = (items: TranslationItem[]) => Object.fromEntries(items.map(item => [item.id, item.id.toUpperCase()]));
+const PROFILE = getProfile()!;
+
+describe('translateItems', () => {
+  // Cut off answers and refused items are logged
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends the items in chunks within the batch limits', async () => {
+    const { provider, calls } = stubProvider(items => ({ translations: translate(items) }), 2);
+    const result = await translateItems(provider, itemsFor(['a', 'b', 'c']), PROFILE);
+    expect(calls).toEqual([['a', 'b'], ['c']]);
+    expect(result).toMatchObject({ translations: { a: 'A', b: 'B', c: 'C' }, missing: [] });
+  });
+
+  it('halves what is left of an answer cut off at the output limit', async () => {
+    const { provider, calls } = stubProvider(items => {
+      const answered = items.slice(0, 2);
+      return { translations: translate(answered), truncated: answered.length < items.length };
+    });
+    const result = await translateItems(provider, itemsFor(['a', 'b', 'c', 'd', 'e']), PROFILE);
+    expect(calls).toEqual([['a', 'b', 'c', 'd', 'e'], ['c', 'd'], ['e']]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it('retries the rest of a partial answer as is', async () => {
+    const { provider, calls } = stubProvider((items, call) => ({
+      translations: translate(call === 1 ? items.filter(item => item.id !== 'b') : items)
+    }));
+    const result = await translateItems(provider, itemsFor(['a', 'b', 'c']), PROFILE);
+    expect(calls).toEqual([['a', 'b', 'c'], ['b']]);
+    expect(result.translations).toEqual({ a: 'A', b: 'B', c: 'C' });
+  });
+
+  it('splits a chunk that came back empty and gives up on the item nothing works for', async () => {
+    const { provider, calls } = stubProvider(items => ({
+      translations: items.length > 1 ? {} : translate(items.filter(item => item.id !== 'c'))
+    }));
+    const result = await translateItems(provider, itemsFor(['a', 'b', 'c']), PROFILE);
+    expect(calls).toEqual([['a', 'b', 'c'], ['a', 'b'], ['a'], ['b'], ['c']]);
+    expect(result).toMatchObject({ translations: { a: 'A', b: 'B' }, missing: ['c'] });
+  });
+
+  it('halves a chunk too large for the context and keeps going past an item too large on its own', async () => {
+    const { provider, calls } = stubProvider(items => {
+      if (items.length > 1 || items[0].id === 'b') throw new TranslationError('context_length', 'Too long');
+      return { translations: translate(items) };
+    }, 3);
+    const result = await translateItems(provider, itemsFor(['a', 'b', 'c', 'd']), PROFILE);
+
+    expect(calls).toEqual([['a', 'b', 'c'], ['a', 'b'], ['a'], ['b'], ['c'], ['d']]);
+    expect(result).toMatchObject({ translations: { a: 'A', c: 'C', d: 'D' }, missing: ['b'] });
+    expect(result.error).toBeUndefined();
+  });
+
+  it('throws an error of the provider while nothing is translated yet', async () => {
+    const { provider } = stubProvider(() => {
+      throw new TranslationError('auth', 'Invalid key');
+    });
+    await expect(translateItems(provider, itemsFor(['a', 'b']), PROFILE)).rejects.toMatchObject({ code: 'auth' });
+  });
+
+  it('stops at an error of the provider and returns what was translated before it', async () => {
+    const { provider, calls } = stubProvider((items, call) => {
+      if (call === 2) throw new TranslationError('quota', 'Out of credit');
+      return { translations: translate(items) };
+    }, 1);
+    const result = await translateItems(provider, itemsFor(['a', 'b', 'c']), PROFILE);
+    expect(calls).toEqual([['a'], ['b']]);
+    expect(result).toMatchObject({ translations: { a: 'A' }, missing: ['b', 'c'] });
+    expect(result.error?.code).toBe('quota');
+  });
+
+  it('reports each item once and adds up the usage of every call', async () => {
+    const usage = { model: 'stub', inputTokens: 10, outputTokens: 5, cachedTokens: 0 };
+    const { provider } = stubProvider((items, call) => ({
+      translations: translate(items.slice(0, 1)),
+      truncated: items.length > 1,
+      usage: { ...usage, inputTokens: usage.inputTokens * call }
+    }));
+    // Streamed items come back in the result as well
+    const streaming: TranslationProvider = {
+      ...provider,
+      translateBatch: async (items, profile, onItem) => {
+        const batch = await provider.translateBatch(items, profile);
+        for (const [id, text] of Object.entries(batch.translations)) onItem?.(id, text);
+        return batch;
+      }
+    };
+    const onItem = vi.fn();
+    const onUsage = vi.fn();
+    const result = await translateItems(streaming, itemsFor(['a', 'b']), PROFILE, { onItem, onUsage });
+
+    expect(onItem.mock.calls).toEqual([['a', 'A'], ['b', 'B']]);
+    expect(onUsage).toHaveBeenCalledTimes(2);
+    expect(result.usage).toMatchObject({ inputTokens: 30, outputTokens: 10 });
+  });
+});
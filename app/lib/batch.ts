@@ -0,0 +1,312 @@
+import { classifyError } from './errors';
+import type { TranslationError, TranslationErrorCode } from './errors';
+import { sumUsage } from './pricing';
+import type { TokenUsage } from './pricing';
+import type { TranslationProfile } from './profiles';
+import type { AlternativesResult, TranslationItem, TranslationProvider } from './providers/types';
+import { DEFAULT_BATCH_LIMITS, estimateItemTokens, packByTokens } from './tokens';
+
+/** Items accepted in one API request; larger requests are rejected rather than cut short */
+export const MAX_REQUEST_ITEMS = 500;
+
+/** Alternatives are asked for a few selected rows at a time, in one provider call */
+export const MAX_ALTERNATIVE_ITEMS = 20;
+export const MAX_ALTERNATIVES = 5;
+
+export interface BatchResult {
+  translations: Record<string, string>;
+  /** IDs that never came back with a usable translation */
+  missing: string[];
+  /** Tokens billed across every provider call made for the batch, retries and splits included */
+  usage?: TokenUsage;
+  /** Error that stopped the batch after part of it was translated; the items not yet tried are in missing */
+  error?: TranslationError;
+}
+
+export interface TranslateItemsOptions {
+  /** Fires once per translated ID as soon as it is known */
+  onItem?: ItemCallback;
+  /** Fires after each provider call that reported usage */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Errors caused by the items themselves; other items of the batch may still go through
+const ITEM_ERROR_CODES: TranslationErrorCode[] = ['context_length', 'content_filter', 'invalid_request'];
+
+function isTranslationItem(value: unknown): value is TranslationItem {
+  if (!value || typeof value !== 'object') return false;
+  const { id, text, context, variant } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof text === 'string'
+    && (context === undefined || typeof context === 'string')
+    && (variant === undefined || typeof variant === 'string');
+}
+
+/** Check the `items` of a batch request body; returns an error message or null when valid */
+export function validateItems(items: unknown[]): string | null {
+  if (items.length === 0) return 'Items array cannot be empty';
+  if (items.length > MAX_REQUEST_ITEMS) return `At most ${MAX_REQUEST_ITEMS} items can be sent per request, got ${items.length}`;
+  if (!items.every(isTranslationItem)) return 'Each item needs a string id and text, and an optional string context and variant';
+  if (new Set(items.map(item => item.id)).size !== items.length) return 'Item IDs must be unique within a batch';
+  return null;
+}
+
+/**
+ * Validate a raw model answer against the batch response schema
+ * `{ "translations": { "<id>": "<text>" } }` and keep only the requested IDs.
+ * Anything that does not match (bad JSON, non-string values, unknown IDs) is dropped.
+ */
+export function parseBatchResponse(raw: string | null | undefined, expectedIds: string[]): Record<string, string> {
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    // Some local models wrap JSON in a markdown fence even in JSON mode
+    parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    return {};
+  }
+
+  if (!parsed || typeof parsed !== 'object') return {};
+  const translations = (parsed as { translations?: unknown }).translations;
+  if (!translations || typeof translations !== 'object' || Array.isArray(translations)) return {};
+
+  const expected = new Set(expectedIds);
+  const result: Record<string, string> = {};
+  for (const [id, value] of Object.entries(translations)) {
+    if (!expected.has(id)) {
+      console.warn(`Ignoring translation for unexpected ID "${id}"`);
+      continue;
+    }
+    if (typeof value === 'string' && value.trim()) {
+      result[id] = value.trim();
+    }
+  }
+  return result;
+}
+
+export type ItemCallback = (id: string, translation: string) => void;
+
+/**
+ * Incremental reader for a streamed batch response. It walks the `"translations"` object
+ * pair by pair and reports each `"<id>": "<text>"` as soon as its closing quote arrives.
+ * If the stream stops looking like the schema it goes quiet and leaves the rest to
+ * parseBatchResponse on the complete text.
+ */
+export function createBatchStreamParser(expectedIds: string[], onItem: ItemCallback) {
+  const expected = new Set(expectedIds);
+  const seen = new Set<string>();
+  let buffer = '';
+  let position = -1;
+  let stopped = false;
+
+  // Returns the index after the closing quote, or -1 when the string is not complete yet
+  const scanString = (start: number): number => {
+    for (let i = start + 1; i < buffer.length; i++) {
+      if (buffer[i] === '\\') i++;
+      else if (buffer[i] === '"') return i + 1;
+    }
+    return -1;
+  };
+
+  const skipWhitespace = (start: number): number => {
+    let i = start;
+    while (i < buffer.length && /[\s,]/.test(buffer[i])) i++;
+    return i;
+  };
+
+  const advance = () => {
+    if (position < 0) {
+      const match = buffer.match(/"translations"\s*:\s*\{/);
+      if (!match || match.index === undefined) return;
+      position = match.index + match[0].length;
+    }
+
+    while (!stopped) {
+      const keyStart = skipWhitespace(position);
+      if (keyStart >= buffer.length) return;
+      // A closing brace ends the object; anything else that is not a key means the shape is off
+      if (buffer[keyStart] !== '"') {
+        stopped = true;
+        return;
+      }
+
+      const keyEnd = scanString(keyStart);
+      if (keyEnd < 0) return;
+
+      let colon = keyEnd;
+      while (colon < buffer.length && /\s/.test(buffer[colon])) colon++;
+      if (colon >= buffer.length) return;
+      if (buffer[colon] !== ':') {
+        stopped = true;
+        return;
+      }
+
+      let valueStart = colon + 1;
+      while (valueStart < buffer.length && /\s/.test(buffer[valueStart])) valueStart++;
+      if (valueStart >= buffer.length) return;
+      if (buffer[valueStart] !== '"') {
+        stopped = true;
+        return;
+      }
+
+      const valueEnd = scanString(valueStart);
+      if (valueEnd < 0) return;
+
+      try {
+        const id: string = JSON.parse(buffer.slice(keyStart, keyEnd));
+        const value: string = JSON.parse(buffer.slice(valueStart, valueEnd));
+        if (expected.has(id) && !seen.has(id) && value.trim()) {
+          seen.add(id);
+          onItem(id, value.trim());
+        }
+      } catch {
+        stopped = true;
+        return;
+      }
+
+      position = valueEnd;
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      advance();
+    },
+    /** Full text received so far, for the final parseBatchResponse pass */
+    get text() {
+      return buffer;
+    }
+  };
+}
+
+/**
+ * Translate items through the provider, retrying whatever comes back missing.
+ * Items are first packed into chunks that fit the provider's batch limits by estimated tokens.
+ * When a retry makes progress the remainder is retried as is; when a whole chunk fails or the
+ * answer was cut off at the output limit it is split in half, so a single confusing or
+ * oversized entry cannot sink the rest of the batch.
+ *
+ * An item the provider refuses on its own (too long, filtered, invalid) ends up in missing and
+ * the other chunks carry on. An error that would fail every call (auth, quota, rate limit) is
+ * thrown while nothing is translated yet; after that the batch stops and returns what it has,
+ * with the error and every untranslated ID in missing.
+ */
+export async function translateItems(
+  provider: TranslationProvider,
+  items: TranslationItem[],
+  profile: TranslationProfile,
+  { onItem, onUsage }: TranslateItemsOptions = {}
+): Promise<BatchResult> {
+  const translations: Record<string, string> = {};
+  const missing: string[] = [];
+  let usage: TokenUsage | undefined;
+  let stopped: TranslationError | undefined;
+
+  // Report every ID at most once, whether the provider streamed it or it only shows up in the result
+  const accept = (id: string, translated: string) => {
+    if (translations[id] !== undefined) return;
+    translations[id] = translated;
+    onItem?.(id, translated);
+  };
+
+  const translateChunk = async (chunk: TranslationItem[]): Promise<void> => {
+    if (stopped) {
+      missing.push(...chunk.filter(item => translations[item.id] === undefined).map(item => item.id));
+      return;
+    }
+
+    const chunkIds = new Set(chunk.map(item => item.id));
+    let result: Record<string, string>;
+    let truncated = false;
+    try {
+      const batch = await provider.translateBatch(chunk, profile, (id, translated) => {
+        if (chunkIds.has(id) && translated.trim()) accept(id, translated);
+      });
+      result = batch.translations;
+      truncated = batch.truncated ?? false;
+      if (batch.usage) {
+        usage = sumUsage(usage, batch.usage);
+        onUsage?.(batch.usage);
+      }
+    } catch (rawError) {
+      // A batch too large for the model's context is halved instead of failing everything
+      const error = classifyError(rawError);
+      const pending = chunk.filter(item => translations[item.id] === undefined);
+      if (error.code === 'context_length' && pending.length > 1) {
+        const middle = Math.ceil(pending.length / 2);
+        await translateChunk(pending.slice(0, middle));
+        await translateChunk(pending.slice(middle));
+        return;
+      }
+
+      if (ITEM_ERROR_CODES.includes(error.code)) {
+        console.warn(`Provider refused ${pending.length} item(s) (${error.code}): ${error.message}`);
+      } else if (Object.keys(translations).length === 0) {
+        throw error;
+      } else {
+        stopped = error;
+      }
+      missing.push(...pending.map(item => item.id));
+      return;
+    }
+    const pending: TranslationItem[] = [];
+
+    for (const item of chunk) {
+      const translated = translations[item.id] ?? result[item.id];
+      if (typeof translated === 'string' && translated.trim()) {
+        accept(item.id, translated);
+      } else {
+        pending.push(item);
+      }
+    }
+
+    if (pending.length === 0) return;
+
+    if (truncated) {
+      console.warn(`Batch answer was cut off at the output token limit, ${pending.length} of ${chunk.length} items pending`);
+    }
+
+    if (pending.length > 1 && (truncated || pending.length === chunk.length)) {
+      const middle = Math.ceil(pending.length / 2);
+      await translateChunk(pending.slice(0, middle));
+      await translateChunk(pending.slice(middle));
+    } else if (pending.length < chunk.length) {
+      await translateChunk(pending);
+    } else {
+      missing.push(pending[0].id);
+    }
+  };
+
+  const chunks = packByTokens(
+    items,
+    item => estimateItemTokens(item.text, item.context),
+    provider.batchLimits ?? DEFAULT_BATCH_LIMITS
+  );
+  for (const chunk of chunks) {
+    await translateChunk(chunk);
+  }
+
+  return { translations, missing, usage, error: stopped };
+}
+
+/**
+ * Up to count candidate translations per item, bypassing the translation memory since the point
+ * is to get something other than what the project already has. A provider without its own
+ * sampling is asked once: a deterministic answer would only repeat itself.
+ */
+export async function translateAlternatives(
+  provider: TranslationProvider,
+  items: TranslationItem[],
+  count: number,
+  profile: TranslationProfile
+): Promise<AlternativesResult> {
+  if (provider.translateAlternatives) {
+    return provider.translateAlternatives(items, count, profile);
+  }
+
+  const { translations, usage } = await provider.translateBatch(items, profile);
+  const alternatives: Record<string, string[]> = {};
+  for (const [id, translation] of Object.entries(translations)) alternatives[id] = [translation];
+  return { alternatives, usage };
+}
@@ -0,0 +1,75 @@
+import { ledgerTotals, usageCost } from './pricing';
+import type { ModelPrice, UsageLedger } from './pricing';
+import type { TokenEstimate } from './tokens';
+
+// Spending caps for bulk translation, checked by the page between batch groups
+
+export type BudgetUnit = 'usd' | 'tokens';
+
+export interface Budget {
+  unit: BudgetUnit;
+  /** Cap on everything spent for the current project; null means no cap */
+  projectLimit: number | null;
+  /** Cap on a single Translate All / Translate Page run */
+  runLimit: number | null;
+}
+
+export type BudgetScope = 'project' | 'run';
+
+export interface BudgetOverrun {
+  scope: BudgetScope;
+  limit: number;
+  spent: number;
+  /** Spend expected once the next group has finished */
+  projected: number;
+}
+
+export const DEFAULT_BUDGET: Budget = { unit: 'usd', projectLimit: null, runLimit: null };
+
+/** Spend of a ledger in the budget's unit; tokens count input plus output */
+export function ledgerSpend(ledger: UsageLedger, unit: BudgetUnit, prices: ModelPrice[]): number {
+  const totals = ledgerTotals(ledger, prices);
+  return unit === 'usd' ? totals.costUsd : totals.inputTokens + totals.outputTokens;
+}
+
+/**
+ * Expected spend of work not sent yet, from its token estimate. The price is that of model, the one
+ * the server reported last; before any report, or for a model missing from the table, the dearest
+ * row stands in so that nothing is projected as free.
+ */
+export function estimateSpend(estimate: TokenEstimate, unit: BudgetUnit, prices: ModelPrice[], model?: string): number {
+  if (unit === 'tokens') return estimate.input + estimate.output;
+
+  const price = prices.find(p => p.model === model) ?? prices.reduce<ModelPrice | undefined>(
+    (dearest, p) => !dearest || p.inputPer1M + p.outputPer1M > dearest.inputPer1M + dearest.outputPer1M ? p : dearest,
+    undefined
+  );
+  return price ? usageCost({ inputTokens: estimate.input, outputTokens: estimate.output, cachedTokens: 0 }, price) : 0;
+}
+
+export function formatSpend(amount: number, unit: BudgetUnit): string {
+  return unit === 'usd' ? `$${amount.toFixed(4)}` : `${Math.round(amount).toLocaleString('id-ID')} tokens`;
+}
+
+/**
+ * The first cap the next group would push past, or null. nextGroupEstimate is usually the
+ * run's average spend per entry so far times the size of the next group, or estimateSpend
+ * for the first group.
+ */
+export function findBudgetOverrun(
+  budget: Budget,
+  spent: Record<BudgetScope, number>,
+  nextGroupEstimate: number,
+  approved: Set<BudgetScope>
+): BudgetOverrun | null {
+  for (const scope of ['run', 'project'] as const) {
+    const limit = scope === 'run' ? budget.runLimit : budget.projectLimit;
+    if (limit === null || approved.has(scope)) continue;
+
+    const projected = spent[scope] + nextGroupEstimate;
+    if (spent[scope] >= limit || projected > limit) {
+      return { scope, limit, spent: spent[scope], projected };
+    }
+  }
+  return null;
+}
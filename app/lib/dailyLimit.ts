@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TranslationError } from './errors';
+import { DEFAULT_PRICES, usageCost } from './pricing';
+import type { ModelPrice, TokenUsage } from './pricing';
+
+// Optional server-wide spending limit per UTC day, independent of any budget set in the browser.
+// DAILY_TOKEN_LIMIT caps input + output tokens, DAILY_USD_LIMIT caps cost at the default price table
+// plus the rows in MODEL_PRICES. A model without a price cannot be held to a dollar cap, so while
+// DAILY_USD_LIMIT is set, usage of one stops translation for the day instead of counting as free.
+// Totals are kept in .data/daily-usage.json so a restart does not reset the day.
+
+interface DailyUsage {
+  date: string;
+  tokens: number;
+  costUsd: number;
+  /** Models used today that have no row in the price table */
+  unpricedModels: string[];
+}
+
+const usageFile = () => process.env.DAILY_USAGE_FILE || path.join(process.cwd(), '.data', 'daily-usage.json');
+const today = () => new Date().toISOString().slice(0, 10);
+
+function limitFromEnv(name: string): number | null {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : null;
+}
+
+const isModelPrice = (value: unknown): value is ModelPrice => {
+  const price = value as ModelPrice;
+  return typeof price?.model === 'string' &&
+    [price.inputPer1M, price.cachedInputPer1M, price.outputPer1M].every(rate => typeof rate === 'number' && rate >= 0);
+};
+
+/**
+ * The default price table with the rows of MODEL_PRICES on top. MODEL_PRICES is a JSON array in
+ * the shape of the price table on the page, e.g. [{"model":"llama3.1","inputPer1M":0,"cachedInputPer1M":0,"outputPer1M":0}].
+ */
+function priceTable(): ModelPrice[] {
+  const setting = process.env.MODEL_PRICES;
+  if (!setting) return DEFAULT_PRICES;
+
+  let extra: unknown;
+  try {
+    extra = JSON.parse(setting);
+  } catch {
+    extra = null;
+  }
+  if (!Array.isArray(extra) || !extra.every(isModelPrice)) {
+    // Left out rather than guessed at: an unpriced model stops translation while DAILY_USD_LIMIT is set
+    console.error('Ignoring MODEL_PRICES: expected a JSON array of {model, inputPer1M, cachedInputPer1M, outputPer1M}');
+    return DEFAULT_PRICES;
+  }
+  return [...extra, ...DEFAULT_PRICES.filter(price => !extra.some(row => row.model === price.model))];
+}
+
+let current: DailyUsage | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+async function load(): Promise<DailyUsage> {
+  if (!current) {
+    try {
+      // Files written before unpricedModels existed lack it
+      current = { unpricedModels: [], ...JSON.parse(await fs.readFile(usageFile(), 'utf8')) } as DailyUsage;
+    } catch {
+      current = { date: today(), tokens: 0, costUsd: 0, unpricedModels: [] };
+    }
+  }
+  if (current.date !== today()) {
+    current = { date: today(), tokens: 0, costUsd: 0, unpricedModels: [] };
+  }
+  return current;
+}
+
+function msUntilTomorrow(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+}
+
+/**
+ * Throw a budget_exceeded TranslationError once today's usage has reached a configured limit, or
+ * when the request's estimated tokens (see estimateRequestTokens) would take it past the token limit
+ */
+export async function assertWithinDailyLimit(estimatedTokens = 0): Promise<void> {
+  const tokenLimit = limitFromEnv('DAILY_TOKEN_LIMIT');
+  const usdLimit = limitFromEnv('DAILY_USD_LIMIT');
+  if (tokenLimit === null && usdLimit === null) return;
+
+  const usage = await load();
+  if (tokenLimit !== null && usage.tokens + estimatedTokens > tokenLimit) {
+    const message = usage.tokens >= tokenLimit
+      ? `Daily token limit of ${tokenLimit} reached`
+      : `Daily token limit of ${tokenLimit} leaves ${tokenLimit - usage.tokens} tokens, this request needs about ${estimatedTokens}`;
+    throw new TranslationError('budget_exceeded', message, msUntilTomorrow());
+  }
+  // Checked against the current table, so adding the missing row to MODEL_PRICES lifts the stop
+  const unpriced = usage.unpricedModels.filter(model => !priceTable().some(price => price.model === model));
+  if (usdLimit !== null && unpriced.length > 0) {
+    throw new TranslationError(
+      'budget_exceeded',
+      `Daily spending limit of $${usdLimit} cannot be enforced: no price for ${unpriced.join(', ')}. Add it to MODEL_PRICES`,
+      msUntilTomorrow()
+    );
+  }
+  if (usdLimit !== null && usage.costUsd >= usdLimit) {
+    throw new TranslationError('budget_exceeded', `Daily spending limit of $${usdLimit} reached`, msUntilTomorrow());
+  }
+}
+
+export async function recordDailyUsage(usage: TokenUsage | undefined): Promise<void> {
+  if (!usage) return;
+
+  const daily = await load();
+  const price = priceTable().find(p => p.model === usage.model);
+  daily.tokens += usage.inputTokens + usage.outputTokens;
+  if (price) {
+    daily.costUsd += usageCost(usage, price);
+  } else if (!daily.unpricedModels.includes(usage.model)) {
+    daily.unpricedModels.push(usage.model);
+  }
+
+  const snapshot = JSON.stringify(daily);
+  writeQueue = writeQueue
+    .then(async () => {
+      await fs.mkdir(path.dirname(usageFile()), { recursive: true });
+      await fs.writeFile(usageFile(), snapshot, 'utf8');
+    })
+    .catch(error => {
+      console.error('Failed to persist daily usage:', error);
+    });
+  return writeQueue;
+}
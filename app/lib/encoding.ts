@@ -0,0 +1,131 @@
+// Byte-level handling of uploaded language files: detect the encoding and BOM on import,
+// and encode the exported text back the same way (or as the user picked).
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface TextFormat {
+  encoding: TextEncodingName;
+  bom: boolean;
+}
+
+export const ENCODING_LABELS: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252'
+};
+
+export function formatLabel({ encoding, bom }: TextFormat): string {
+  return `${ENCODING_LABELS[encoding]}${bom ? ' (BOM)' : ''}`;
+}
+
+const BOMS: Record<Exclude<TextEncodingName, 'windows-1252'>, number[]> = {
+  'utf-8': [0xef, 0xbb, 0xbf],
+  'utf-16le': [0xff, 0xfe],
+  'utf-16be': [0xfe, 0xff]
+};
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) => prefix.every((byte, i) => bytes[i] === byte);
+
+// Without a BOM, UTF-16 text of mostly Latin characters has a zero in every other byte
+function guessUtf16(bytes: Uint8Array): TextEncodingName | null {
+  const sample = bytes.subarray(0, 4096);
+  if (sample.length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * What the first bytes alone can tell: a BOM, or the zero-byte pattern of UTF-16.
+ * Null means the file is UTF-8 unless decoding it fails.
+ */
+export function sniffFormat(head: Uint8Array): TextFormat | null {
+  for (const [encoding, bom] of Object.entries(BOMS) as Array<[TextEncodingName, number[]]>) {
+    if (startsWith(head, bom)) return { encoding, bom: true };
+  }
+
+  const utf16 = guessUtf16(head);
+  return utf16 ? { encoding: utf16, bom: false } : null;
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F
+const WINDOWS_1252_EXTRAS = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+// Mapped by hand: TextDecoder support for legacy code pages differs between runtimes
+function decodeWindows1252(bytes: Uint8Array): string {
+  let text = '';
+  for (let start = 0; start < bytes.length; start += 8192) {
+    const chars = Array.from(bytes.subarray(start, start + 8192), byte =>
+      byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_EXTRAS[byte - 0x80] : String.fromCharCode(byte));
+    text += chars.join('');
+  }
+  return text;
+}
+
+/**
+ * Decoder for a file in the given format; a BOM is dropped from the text and remembered in the
+ * format. With fatal set, invalid input errors the stream instead of turning into replacement characters.
+ */
+export function createDecoderStream({ encoding }: TextFormat, fatal = false): TransformStream<BufferSource, string> {
+  if (encoding === 'windows-1252') {
+    // One byte per character, so chunks decode independently
+    return new TransformStream<BufferSource, string>({
+      transform(chunk, controller) {
+        const bytes = ArrayBuffer.isView(chunk)
+          ? new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+          : new Uint8Array(chunk);
+        controller.enqueue(decodeWindows1252(bytes));
+      }
+    });
+  }
+  return new TextDecoderStream(encoding, { fatal });
+}
+
+function encodeWindows1252(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const extra = WINDOWS_1252_EXTRAS.indexOf(text[i]);
+    if (extra >= 0) bytes[i] = 0x80 + extra;
+    else if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) bytes[i] = code;
+    else bytes[i] = 0x3f; // '?' for characters the code page cannot hold
+  }
+  return bytes;
+}
+
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+  }
+  return bytes;
+}
+
+export function encodeText(text: string, { encoding, bom }: TextFormat): Uint8Array<ArrayBuffer> {
+  const body = encoding === 'utf-8' ? new TextEncoder().encode(text)
+    : encoding === 'windows-1252' ? encodeWindows1252(text)
+    : encodeUtf16(text, encoding === 'utf-16le');
+
+  const prefix = bom && encoding !== 'windows-1252' ? BOMS[encoding] : [];
+  const bytes = new Uint8Array(prefix.length + body.length);
+  bytes.set(prefix);
+  bytes.set(body, prefix.length);
+  return bytes;
+}
+
+/** Value for the Blob type of an export */
+export function mimeCharset({ encoding }: TextFormat): string {
+  return encoding === 'windows-1252' ? 'windows-1252' : encoding;
+}
@@ -0,0 +1,123 @@
+import { getString } from './ltf';
+import type { LtfDocument, LtfEntry, LtfStringEdits } from './ltf';
+
+// The page's editable view of an .ltf file: one row per key, with every STR-n line of it
+
+/** [...] and {...} spans: game tokens that must reach the translation unchanged */
+export const PLACEHOLDER_PATTERN = /\[[^\]]*\]|\{[^}]*\}/g;
+
+export type EntryStatus = 'untranslated' | 'machine' | 'fallback' | 'reviewed' | 'approved';
+
+export const ENTRY_STATUSES: EntryStatus[] = ['untranslated', 'machine', 'fallback', 'reviewed', 'approved'];
+
+/** Where the current text came from; fallback is the English copied in after a refused translation */
+export type TranslationOrigin = 'machine' | 'human' | 'cache' | 'fallback';
+
+export interface LTFEntry {
+  key: string;
+  english: string;
+  /** STR-1 */
+  translation: string;
+  comment?: string;
+  /** STR-2 and up keyed by n, for files with gendered or other variant forms */
+  variants?: Record<number, string>;
+  /** Set by a patch upgrade when the English changed under an existing translation */
+  stale?: { previousEnglish: string };
+  /** Absent for text that came with the uploaded file; see entryStatus */
+  status?: Exclude<EntryStatus, 'untranslated'>;
+  origin?: TranslationOrigin;
+}
+
+/** n of every STR-n line the entry has, STR-1 included and first */
+export function stringIndexes(entry: LTFEntry): number[] {
+  const variantIndexes = Object.keys(entry.variants ?? {}).map(Number).sort((a, b) => a - b);
+  return [1, ...variantIndexes];
+}
+
+export function getEntryString(entry: LTFEntry, index: number): string {
+  return index === 1 ? entry.translation : entry.variants?.[index] ?? '';
+}
+
+/** Writing a string counts as reviewing the entry, so a stale mark is dropped */
+export function withEntryString(entry: LTFEntry, index: number, text: string): LTFEntry {
+  return index === 1
+    ? { ...entry, translation: text, stale: undefined }
+    : { ...entry, variants: { ...entry.variants, [index]: text }, stale: undefined };
+}
+
+/** STR-n lines that still need a translation: empty ones, and English copies left by a fallback */
+export function pendingIndexes(entry: LTFEntry): number[] {
+  if (!entry.english) return [];
+  return stringIndexes(entry).filter(index => {
+    const text = getEntryString(entry, index);
+    return !text.trim() || (entry.status === 'fallback' && text === entry.english);
+  });
+}
+
+/** Text that came with the uploaded file counts as reviewed */
+export function entryStatus(entry: LTFEntry): EntryStatus {
+  if (entry.status === 'fallback') return 'fallback';
+  if (pendingIndexes(entry).length > 0) return 'untranslated';
+  return entry.status ?? 'reviewed';
+}
+
+export function withStatus(entry: LTFEntry, status: Exclude<EntryStatus, 'untranslated'>, origin?: TranslationOrigin): LTFEntry {
+  return { ...entry, status, origin: origin ?? entry.origin };
+}
+
+/**
+ * Review state of one STR-n line, as carried through exchange formats. translated is only ever
+ * read from a file that has a translation but does not say how far it got, e.g. a CSV without a
+ * status column.
+ */
+export type StringStatus = 'untranslated' | 'translated' | 'machine' | 'reviewed' | 'approved' | 'stale';
+
+export function stringStatus(entry: LTFEntry, index: number): StringStatus {
+  if (!getEntryString(entry, index).trim()) return 'untranslated';
+  if (entry.stale) return 'stale';
+  // An English fallback still needs a translator, like a machine translation does
+  const status = entry.status ?? 'reviewed';
+  return status === 'fallback' ? 'machine' : status;
+}
+
+/** Prompt hint naming the form, or undefined for entries with STR-1 only */
+export function variantLabel(entry: LTFEntry, index: number): string | undefined {
+  const indexes = stringIndexes(entry);
+  return indexes.length > 1 ? `STR-${index} of ${indexes[indexes.length - 1]}` : undefined;
+}
+
+export function entryFromLtf(entry: LtfEntry): LTFEntry {
+  const variants: Record<number, string> = {};
+  for (const str of entry.strings) {
+    if (str.index !== 1 && variants[str.index] === undefined) variants[str.index] = str.text;
+  }
+
+  return {
+    key: entry.key,
+    english: entry.english,
+    translation: getString(entry) ?? '',
+    comment: entry.comment,
+    ...(Object.keys(variants).length > 0 && { variants })
+  };
+}
+
+export function entriesFromLtf(doc: LtfDocument): LTFEntry[] {
+  return doc.entries.map(entryFromLtf);
+}
+
+/** STR-n texts that differ from the document, ready for serializeLtf */
+export function ltfStringEdits(doc: LtfDocument, entries: LTFEntry[]): LtfStringEdits {
+  const edits: LtfStringEdits = new Map();
+
+  entries.forEach((entry, entryIndex) => {
+    const original = doc.entries[entryIndex];
+    const changed = new Map<number, string>();
+    for (const index of stringIndexes(entry)) {
+      const text = getEntryString(entry, index);
+      if (text !== (getString(original, index) ?? '')) changed.set(index, text);
+    }
+    if (changed.size > 0) edits.set(entryIndex, changed);
+  });
+
+  return edits;
+}
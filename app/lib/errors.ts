@@ -0,0 +1,129 @@
+// Typed translation errors. Shared by the API (classification, HTTP status) and the page (reaction).
+
+export type TranslationErrorCode =
+  | 'rate_limit'
+  | 'quota'
+  | 'timeout'
+  | 'context_length'
+  | 'auth'
+  | 'content_filter'
+  | 'invalid_request'
+  | 'budget_exceeded'
+  | 'provider_error';
+
+/** HTTP status the API answers with for each code */
+export const ERROR_STATUS: Record<TranslationErrorCode, number> = {
+  rate_limit: 429,
+  quota: 402,
+  timeout: 504,
+  context_length: 413,
+  auth: 502,
+  content_filter: 422,
+  invalid_request: 400,
+  budget_exceeded: 429,
+  provider_error: 502
+};
+
+/** Codes worth retrying with the same input after a pause */
+const RETRYABLE_CODES: TranslationErrorCode[] = ['rate_limit', 'timeout', 'provider_error'];
+
+export class TranslationError extends Error {
+  readonly code: TranslationErrorCode;
+  /** Delay the provider asked for (Retry-After), when it sent one */
+  readonly retryAfterMs?: number;
+
+  constructor(code: TranslationErrorCode, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TranslationError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+/** Read Retry-After (seconds or HTTP date) or OpenAI's retry-after-ms into milliseconds */
+export function parseRetryAfter(headers: Headers | undefined | null): number | undefined {
+  if (!headers) return undefined;
+
+  const retryAfterMs = Number(headers.get('retry-after-ms'));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Map an HTTP status (plus an optional provider error code/message) onto a TranslationErrorCode */
+export function codeForStatus(status: number | undefined, providerCode?: string | null, message = ''): TranslationErrorCode {
+  const hint = `${providerCode || ''} ${message}`.toLowerCase();
+
+  if (hint.includes('context_length') || hint.includes('maximum context length') || hint.includes('too many tokens')) {
+    return 'context_length';
+  }
+  if (hint.includes('content_filter') || hint.includes('content management policy')) return 'content_filter';
+  if (hint.includes('insufficient_quota')) return 'quota';
+
+  switch (status) {
+    case 401:
+    case 403:
+      return 'auth';
+    case 408:
+    case 504:
+      return 'timeout';
+    case 413:
+      return 'context_length';
+    case 429:
+      return 'rate_limit';
+    case 400:
+    case 404:
+    case 422:
+      return 'invalid_request';
+    default:
+      return 'provider_error';
+  }
+}
+
+/**
+ * Turn whatever a provider threw into a TranslationError. Works by shape rather than
+ * instanceof so it covers the OpenAI SDK, fetch failures and AbortSignal timeouts alike.
+ */
+export function classifyError(error: unknown): TranslationError {
+  if (error instanceof TranslationError) return error;
+
+  const { name, message, status, code, headers } = (error || {}) as {
+    name?: string;
+    message?: string;
+    status?: number;
+    code?: string | null;
+    headers?: Headers;
+  };
+  const text = message || String(error);
+
+  if (name === 'APIConnectionTimeoutError' || name === 'TimeoutError') {
+    return new TranslationError('timeout', text);
+  }
+  if (status === undefined && (name === 'APIConnectionError' || error instanceof TypeError)) {
+    // Network failure before any response (DNS, refused connection, reset)
+    return new TranslationError('provider_error', text);
+  }
+
+  return new TranslationError(codeForStatus(status, code, text), text, parseRetryAfter(headers));
+}
+
+/** JSON body for a failed API call; keeps the old `error`/`details` fields and adds the typed code */
+export function errorBody(error: TranslationError) {
+  return {
+    error: 'Translation failed',
+    code: error.code,
+    details: error.message,
+    retryAfterMs: error.retryAfterMs
+  };
+}
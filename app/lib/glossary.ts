@@ -0,0 +1,111 @@
+import { parseCsv, toCsv } from './csv';
+
+// Project glossary: fixed FM terms the translation has to use. Matching entries are put into
+// the prompt by the API, and the page flags translations that do not contain the required term.
+
+export interface GlossaryEntry {
+  /** English term as it appears in the source text, matched case-insensitively on word boundaries */
+  source: string;
+  /** Required translation; ignored when doNotTranslate is set */
+  target: string;
+  /** Keep the English term as is, e.g. competition names and club nicknames */
+  doNotTranslate: boolean;
+  notes?: string;
+}
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  /** Term that should have appeared in the translation */
+  expected: string;
+}
+
+const CSV_HEADER = ['source', 'target', 'do_not_translate', 'notes'];
+const TRUTHY = new Set(['1', 'true', 'yes', 'y', 'ya', 'x']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits on either side mean the term is part of a longer word
+const termPattern = (term: string) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, 'iu');
+
+/** The term the translation has to contain for this entry */
+export function requiredTerm(entry: GlossaryEntry): string {
+  return entry.doNotTranslate ? entry.source : entry.target;
+}
+
+function isGlossaryEntry(value: unknown): value is GlossaryEntry {
+  if (!value || typeof value !== 'object') return false;
+  const { source, target, doNotTranslate, notes } = value as Record<string, unknown>;
+  return typeof source === 'string'
+    && typeof target === 'string'
+    && typeof doNotTranslate === 'boolean'
+    && (notes === undefined || typeof notes === 'string');
+}
+
+/** Check the `glossary` of a request body; returns an error message or null when valid */
+export function validateGlossary(glossary: unknown): string | null {
+  if (!Array.isArray(glossary)) return 'Glossary must be an array';
+  if (!glossary.every(isGlossaryEntry)) return 'Each glossary entry needs a source, a target and a doNotTranslate flag';
+  return null;
+}
+
+/** Entries whose source term occurs in any of the texts */
+export function matchGlossary(glossary: GlossaryEntry[], texts: string[]): GlossaryEntry[] {
+  return glossary.filter(entry => {
+    if (!entry.source.trim() || !requiredTerm(entry).trim()) return false;
+    const pattern = termPattern(entry.source);
+    return texts.some(text => pattern.test(text));
+  });
+}
+
+/**
+ * Build a checker for translations. Patterns are compiled once, so the returned function is
+ * cheap enough to run over every entry of a large file.
+ */
+export function createGlossaryChecker(glossary: GlossaryEntry[]) {
+  const rules = glossary
+    .filter(entry => entry.source.trim() && requiredTerm(entry).trim())
+    .map(entry => ({
+      entry,
+      expected: requiredTerm(entry).trim(),
+      source: termPattern(entry.source),
+      target: termPattern(requiredTerm(entry))
+    }));
+
+  return (english: string, translation: string): GlossaryViolation[] => {
+    if (!translation.trim()) return [];
+    return rules
+      .filter(rule => rule.source.test(english) && !rule.target.test(translation))
+      .map(({ entry, expected }) => ({ entry, expected }));
+  };
+}
+
+export function glossaryToCsv(glossary: GlossaryEntry[]): string {
+  return toCsv([
+    CSV_HEADER,
+    ...glossary.map(entry => [entry.source, entry.target, entry.doNotTranslate ? 'true' : 'false', entry.notes || ''])
+  ]);
+}
+
+/**
+ * Read a glossary CSV with the columns source, target, do_not_translate, notes.
+ * A header row is optional; without one the columns are taken in that order.
+ */
+export function parseGlossaryCsv(content: string): GlossaryEntry[] {
+  const rows = parseCsv(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('source');
+  const column = (name: string, fallback: number) => hasHeader ? header.indexOf(name) : fallback;
+  const [source, target, doNotTranslate, notes] = CSV_HEADER.map((name, index) => column(name, index));
+
+  return rows
+    .slice(hasHeader ? 1 : 0)
+    .map(row => ({
+      source: (row[source] ?? '').trim(),
+      target: (row[target] ?? '').trim(),
+      doNotTranslate: TRUTHY.has((row[doNotTranslate] ?? '').trim().toLowerCase()),
+      notes: (row[notes] ?? '').trim() || undefined
+    }))
+    .filter(entry => entry.source !== '');
+}
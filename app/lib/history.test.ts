@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { LTFEntry } from './entries';
+import { EMPTY_HISTORY, diffEntries, recordOperation, redo, undo } from './history';
+import type { History } from './history';
+
+const entry = (key: string, translation = ''): LTFEntry => ({ key, english: key, translation });
+
+/** Record the change from before to after as one operation of the given merge group */
+function record(history: History, before: LTFEntry[], after: LTFEntry[], mergeKey?: string, at = 0): History {
+  return recordOperation(history, { kind: 'translate', label: mergeKey ?? 'op', at, mergeKey, edits: diffEntries(before, after) });
+}
+
+describe('merging operations', () => {
+  const start = [entry('A'), entry('B'), entry('C')];
+  const first = [entry('A', 'a1'), start[1], start[2]];
+  const second = [entry('A', 'a2'), entry('B', 'b1'), start[2]];
+
+  it('keeps the earliest before and the latest after per entry', () => {
+    let history = record(EMPTY_HISTORY, start, first, 'run');
+    history = record(history, first, second, 'run');
+
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].edits.map(edit => [edit.index, edit.before, edit.after])).toEqual([
+      [0, start[0], second[0]],
+      [1, start[1], second[1]]
+    ]);
+    expect(undo(history, second)?.entries).toEqual(start);
+  });
+
+  it('gives the same result when the same merge is recorded twice', () => {
+    // React may call a state updater twice with the same previous state
+    const history = record(EMPTY_HISTORY, start, first, 'run');
+    const operation = { kind: 'translate' as const, label: 'run', at: 0, mergeKey: 'run', edits: diffEntries(first, second) };
+    recordOperation(history, operation);
+    const merged = recordOperation(history, operation);
+
+    expect(merged.past[0].edits).toHaveLength(2);
+    expect(merged.past[0].edits[0].before).toBe(start[0]);
+    expect(undo(merged, second)?.entries).toEqual(start);
+  });
+
+  it('leaves the previous history as it was', () => {
+    const history = record(EMPTY_HISTORY, start, first, 'run');
+    const edits = history.past[0].edits;
+    const merged = record(history, first, second, 'run');
+
+    expect(history.past[0].edits).toBe(edits);
+    expect(edits).toHaveLength(1);
+    expect(edits[0].after).toBe(first[0]);
+    expect(merged.past[0].edits).not.toBe(edits);
+  });
+
+  it('starts a new operation for another merge key', () => {
+    let history = record(EMPTY_HISTORY, start, first, 'run');
+    history = record(history, first, second, 'other');
+    expect(history.past).toHaveLength(2);
+    expect(history.past[0].edits).toHaveLength(1);
+  });
+
+  it('merges into an operation brought back by redo', () => {
+    let history = record(EMPTY_HISTORY, start, first, 'run');
+    const undone = undo(history, first);
+    const redone = undone && redo(undone.history, undone.entries);
+    history = record(redone?.history ?? EMPTY_HISTORY, first, second, 'run');
+
+    expect(history.past).toHaveLength(1);
+    expect(undo(history, second)?.entries).toEqual(start);
+  });
+});
@@ -0,0 +1,113 @@
+import type { LTFEntry } from './entries';
+
+// Undo/redo log of the entries. An operation keeps only the entries it changed, before and after,
+// so its size follows the edit rather than the project: typing in one row of a 100k-entry file
+// stores one pair of references, not a copy of the array. Entries are never mutated in place,
+// which is what makes keeping the references safe.
+
+export type OperationKind = 'edit' | 'translate' | 'replace' | 'import' | 'review';
+
+export interface EntryEdit {
+  /** Index into the entries */
+  index: number;
+  before: LTFEntry;
+  after: LTFEntry;
+}
+
+export interface Operation {
+  kind: OperationKind;
+  label: string;
+  at: number;
+  /** Operations with the same key in a row become one, e.g. all results of one Translate All */
+  mergeKey?: string;
+  edits: EntryEdit[];
+}
+
+export interface History {
+  /** Oldest first */
+  past: Operation[];
+  /** Next to redo first */
+  future: Operation[];
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+const MAX_OPERATIONS = 100;
+// Entry pairs kept across all operations; the oldest operations go first when a run of
+// bulk translations would pass it
+const MAX_EDITS = 300_000;
+// Keystrokes in one textarea closer together than this undo as one edit
+const TYPING_MERGE_WINDOW = 2000;
+
+/** Entries that differ by reference; the arrays are the same project, so the same length */
+export function diffEntries(before: LTFEntry[], after: LTFEntry[]): EntryEdit[] {
+  const edits: EntryEdit[] = [];
+  for (let index = 0; index < after.length; index++) {
+    if (before[index] !== after[index]) edits.push({ index, before: before[index], after: after[index] });
+  }
+  return edits;
+}
+
+// A new array every time: the operation being merged into is still part of the History held in
+// React state. Only the later edits go into a Map, so the cost per merge is one pass over the
+// earlier edits, whose length a Translate All grows by a batch at a time.
+function mergeEdits(earlier: EntryEdit[], later: EntryEdit[]): EntryEdit[] {
+  const pending = new Map(later.map(edit => [edit.index, edit]));
+  const merged = earlier.map(edit => {
+    const next = pending.get(edit.index);
+    if (!next) return edit;
+    pending.delete(edit.index);
+    return { ...next, before: edit.before };
+  });
+  for (const edit of pending.values()) merged.push(edit);
+  return merged;
+}
+
+/** Add an operation; anything that was undone can no longer be redone */
+export function recordOperation(history: History, operation: Operation): History {
+  const past = history.past.slice();
+  const last = past[past.length - 1];
+  const merge = last && operation.mergeKey !== undefined && last.mergeKey === operation.mergeKey &&
+    (operation.kind !== 'edit' || operation.at - last.at < TYPING_MERGE_WINDOW);
+
+  if (merge) {
+    past[past.length - 1] = { ...operation, label: last.label, edits: mergeEdits(last.edits, operation.edits) };
+  } else {
+    past.push(operation);
+  }
+
+  let editCount = past.reduce((sum, item) => sum + item.edits.length, 0);
+  while (past.length > 1 && (past.length > MAX_OPERATIONS || editCount > MAX_EDITS)) {
+    editCount -= past[0].edits.length;
+    past.shift();
+  }
+  return { past, future: [] };
+}
+
+function applyEdits(entries: LTFEntry[], edits: EntryEdit[], side: 'before' | 'after'): LTFEntry[] {
+  const result = entries.slice();
+  for (const edit of edits) result[edit.index] = edit[side];
+  return result;
+}
+
+/** null when there is nothing to undo */
+export function undo(history: History, entries: LTFEntry[]): { history: History, entries: LTFEntry[], operation: Operation } | null {
+  const operation = history.past[history.past.length - 1];
+  if (!operation) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [operation, ...history.future] },
+    entries: applyEdits(entries, operation.edits, 'before'),
+    operation
+  };
+}
+
+/** null when there is nothing to redo */
+export function redo(history: History, entries: LTFEntry[]): { history: History, entries: LTFEntry[], operation: Operation } | null {
+  const operation = history.future[0];
+  if (!operation) return null;
+  return {
+    history: { past: [...history.past, operation], future: history.future.slice(1) },
+    entries: applyEdits(entries, operation.edits, 'after'),
+    operation
+  };
+}
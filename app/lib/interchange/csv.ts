@@ -0,0 +1,68 @@
+import { parseCsv, toCsv } from '../csv';
+import type { StringStatus } from '../entries';
+import type { InterchangeFormat, InterchangeUnit } from './types';
+
+// Spreadsheet export: one row per STR-n line
+
+const CSV_HEADER = ['key', 'string', 'english', 'translation', 'status', 'comment', 'previous_english'];
+const STATUSES: StringStatus[] = ['untranslated', 'translated', 'machine', 'reviewed', 'approved', 'stale'];
+
+/** Without a known status a translation is just translated, which leaves the entry's status alone */
+function readStatus(value: string, translation: string): StringStatus {
+  const status = value.trim().toLowerCase() as StringStatus;
+  if (STATUSES.includes(status)) return status;
+  return translation.trim() ? 'translated' : 'untranslated';
+}
+
+export const csvFormat: InterchangeFormat = {
+  id: 'csv',
+  label: 'CSV (spreadsheet)',
+  extensions: ['.csv'],
+  mimeType: 'text/csv',
+
+  write(units) {
+    return toCsv([
+      CSV_HEADER,
+      ...units.map(unit => [
+        unit.key,
+        String(unit.variant),
+        unit.english,
+        unit.translation,
+        unit.status,
+        unit.comment ?? '',
+        unit.previousEnglish ?? ''
+      ])
+    ]);
+  },
+
+  /** A header row is optional; without one the columns are taken in the exported order */
+  read(content) {
+    const rows = parseCsv(content);
+    if (rows.length === 0) return [];
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const hasHeader = header.includes('key');
+    if (hasHeader && !header.includes('translation')) {
+      throw new Error('CSV needs a "translation" column');
+    }
+    const [key, variant, english, translation, status, comment, previousEnglish] = CSV_HEADER
+      .map((name, index) => hasHeader ? header.indexOf(name) : index);
+    const cell = (row: string[], column: number) => column >= 0 ? row[column] ?? '' : '';
+
+    return rows
+      .slice(hasHeader ? 1 : 0)
+      .map((row): InterchangeUnit => {
+        const text = cell(row, translation);
+        return {
+          key: cell(row, key).trim(),
+          variant: Number(cell(row, variant)) || 1,
+          english: cell(row, english),
+          translation: text,
+          status: readStatus(cell(row, status), text),
+          comment: cell(row, comment) || undefined,
+          previousEnglish: cell(row, previousEnglish) || undefined
+        };
+      })
+      .filter(unit => unit.key !== '');
+  }
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { entryStatus } from '../entries';
+import type { LTFEntry } from '../entries';
+import { applyUnits, getInterchangeFormat, unitsFromEntries } from './index';
+
+const META = { fileName: 'test.ltf', sourceLanguage: 'en', targetLanguage: 'id' };
+
+const ENTRIES: LTFEntry[] = [
+  { key: 'MACHINE', english: 'Goal', translation: 'Gol', status: 'machine', origin: 'machine' },
+  { key: 'REVIEWED', english: 'Match', translation: 'Pertandingan', status: 'reviewed', origin: 'human' },
+  { key: 'APPROVED', english: 'Coach', translation: 'Pelatih', status: 'approved', origin: 'human' },
+  { key: 'ORIGINAL', english: 'Club', translation: 'Klub' },
+  { key: 'FALLBACK', english: 'Kit', translation: 'Kit', status: 'fallback', origin: 'fallback' },
+  { key: 'STALE', english: 'New text', translation: 'Teks lama', status: 'reviewed', stale: { previousEnglish: 'Old text' } },
+  { key: 'EMPTY', english: 'Bench', translation: '' }
+];
+
+// XLIFF needs a DOMParser, which the node test environment does not have
+const roundTrip = (formatId: string, edit = (content: string) => content) => {
+  const format = getInterchangeFormat(formatId);
+  if (!format) throw new Error(`No format ${formatId}`);
+  return applyUnits(ENTRIES, format.read(edit(format.write(unitsFromEntries(ENTRIES), META))));
+};
+
+describe('statuses through exchange formats', () => {
+  it('exports the review status of each line', () => {
+    expect(unitsFromEntries(ENTRIES).map(unit => unit.status)).toEqual([
+      'machine', 'reviewed', 'approved', 'reviewed', 'machine', 'stale', 'untranslated'
+    ]);
+  });
+
+  it('brings every status back from CSV', () => {
+    const { entries, updated } = roundTrip('csv');
+    expect(updated).toBe(0);
+    expect(entries).toEqual(ENTRIES);
+  });
+
+  it('brings PO statuses back, keeping approved lines approved', () => {
+    const { entries, updated } = roundTrip('po');
+    expect(updated).toBe(0);
+    expect(entries.map(entryStatus)).toEqual(ENTRIES.map(entryStatus));
+    expect(entries[5].stale).toEqual({ previousEnglish: 'Old text' });
+  });
+
+  it('marks machine translations fuzzy in PO and reads a cleared flag as reviewed', () => {
+    const { entries, updated } = roundTrip('po', content => content.replace('#, fuzzy\nmsgctxt "MACHINE"', 'msgctxt "MACHINE"'));
+    expect(updated).toBe(1);
+    expect(entries[0]).toMatchObject({ status: 'reviewed', origin: 'machine' });
+  });
+
+  it('takes a status set in the spreadsheet', () => {
+    const { entries } = roundTrip('csv', content => content.replace('MACHINE,1,Goal,Gol,machine', 'MACHINE,1,Goal,Gol,approved'));
+    expect(entries[0].status).toBe('approved');
+  });
+
+  it('counts changed text as a human edit', () => {
+    const { entries } = roundTrip('csv', content => content.replace('Gol,machine', 'Gol!,machine'));
+    expect(entries[0]).toMatchObject({ translation: 'Gol!', status: 'reviewed', origin: 'human' });
+  });
+
+  it('leaves statuses alone for a CSV without a status column', () => {
+    const format = getInterchangeFormat('csv');
+    const { entries, updated } = applyUnits(ENTRIES, format?.read('key,translation\nMACHINE,Gol\nAPPROVED,Pelatih\n') ?? []);
+    expect(updated).toBe(0);
+    expect(entries).toEqual(ENTRIES);
+  });
+});
+
+describe('empty translations on import', () => {
+  const translated: LTFEntry[] = [
+    { key: 'GREETING', english: 'Hello', translation: 'Halo', status: 'machine', origin: 'machine' },
+    { key: 'STALE', english: 'New text', translation: 'Teks lama', status: 'reviewed', stale: { previousEnglish: 'Old text' } }
+  ];
+  const unit = { english: 'Hello', translation: '', variant: 1 };
+
+  it('keeps the current text for an untranslated unit', () => {
+    const { entries, updated, unmatched } = applyUnits(translated, [
+      { ...unit, key: 'GREETING', status: 'untranslated' },
+      { ...unit, key: 'STALE', status: 'untranslated' }
+    ]);
+    expect({ updated, unmatched }).toEqual({ updated: 0, unmatched: 0 });
+    expect(entries).toEqual(translated);
+  });
+
+  it('keeps the current text for an empty cell of an older export', () => {
+    // The CSV was exported before the machine pass filled in GREETING
+    const csv = 'key,string,english,translation,status\nGREETING,1,Hello,,\n';
+    const { entries, updated } = applyUnits(translated, getInterchangeFormat('csv')?.read(csv) ?? []);
+    expect(updated).toBe(0);
+    expect(entries[0]).toBe(translated[0]);
+  });
+
+  it('empties a line the file marks as cleared', () => {
+    const { entries, updated } = applyUnits(translated, [{ ...unit, key: 'GREETING', status: 'untranslated', cleared: true }]);
+    expect(updated).toBe(1);
+    expect(entries[0].translation).toBe('');
+    expect(entryStatus(entries[0])).toBe('untranslated');
+  });
+});
@@ -0,0 +1,122 @@
+import { getEntryString, stringIndexes, stringStatus, withEntryString, withStatus } from '../entries';
+import type { LTFEntry, StringStatus } from '../entries';
+import { csvFormat } from './csv';
+import { poFormat } from './po';
+import { xliffFormat } from './xliff';
+import type { InterchangeFormat, InterchangeUnit } from './types';
+
+export type { InterchangeFormat, InterchangeMeta, InterchangeUnit } from './types';
+
+// Exchange formats for reviewers working in CAT tools or spreadsheets
+
+export const INTERCHANGE_FORMATS: InterchangeFormat[] = [xliffFormat, poFormat, csvFormat];
+
+export function getInterchangeFormat(id: string): InterchangeFormat | undefined {
+  return INTERCHANGE_FORMATS.find(format => format.id === id);
+}
+
+export function formatForFileName(fileName: string): InterchangeFormat | undefined {
+  const name = fileName.toLowerCase();
+  return INTERCHANGE_FORMATS.find(format => format.extensions.some(extension => name.endsWith(extension)));
+}
+
+export function unitsFromEntries(entries: LTFEntry[]): InterchangeUnit[] {
+  return entries.flatMap(entry => stringIndexes(entry).map(index => ({
+    key: entry.key,
+    variant: index,
+    english: entry.english,
+    translation: getEntryString(entry, index),
+    comment: entry.comment,
+    status: stringStatus(entry, index),
+    previousEnglish: entry.stale?.previousEnglish
+  })));
+}
+
+// Line statuses that set the entry's status on import, least reviewed first
+const REVIEW_ORDER = ['machine', 'reviewed', 'approved'] as const;
+type ReviewStatus = typeof REVIEW_ORDER[number];
+
+const isReviewStatus = (status: StringStatus): status is ReviewStatus =>
+  (REVIEW_ORDER as readonly StringStatus[]).includes(status);
+
+/**
+ * The entry is as far along as its least reviewed imported line. Unchanged text takes that status,
+ * except that reviewed does not demote approved (PO cannot say approved) and machine leaves an
+ * English fallback as it is. Changed text is a human edit and at least reviewed.
+ */
+function importStatus(original: LTFEntry, next: LTFEntry, units: InterchangeUnit[]): LTFEntry {
+  const stated = units.map(unit => unit.status).filter(isReviewStatus);
+  const status = stated.length > 0
+    ? stated.reduce((least, item) => REVIEW_ORDER.indexOf(item) < REVIEW_ORDER.indexOf(least) ? item : least)
+    : undefined;
+
+  if (next !== original) return withStatus(next, status === 'approved' ? 'approved' : 'reviewed', 'human');
+
+  const current = original.status ?? 'reviewed';
+  if (!status || status === current) return next;
+  if ((status === 'reviewed' && current === 'approved') || (status === 'machine' && current === 'fallback')) return next;
+  return withStatus(next, status);
+}
+
+export interface InterchangeImport {
+  entries: LTFEntry[];
+  /** Entries whose translation or status changed */
+  updated: number;
+  /** Units with a key or STR-n line the project does not have */
+  unmatched: number;
+}
+
+/**
+ * Write imported translations and statuses back into the entries, matched by key and STR-n.
+ * Units of a repeated key go to that key's entries in order of appearance. A unit without a
+ * translation leaves the line alone unless it is marked cleared: an export made before a machine
+ * pass has empty cells for everything that pass filled in.
+ */
+export function applyUnits(entries: LTFEntry[], units: InterchangeUnit[]): InterchangeImport {
+  const entryIndexes = new Map<string, number[]>();
+  entries.forEach((entry, index) => {
+    entryIndexes.set(entry.key, [...(entryIndexes.get(entry.key) ?? []), index]);
+  });
+
+  const occurrences = new Map<string, number>();
+  const unitsByEntry = new Map<number, InterchangeUnit[]>();
+  let unmatched = 0;
+
+  for (const unit of units) {
+    const occurrenceKey = `${unit.key}:${unit.variant}`;
+    const occurrence = occurrences.get(occurrenceKey) ?? 0;
+    occurrences.set(occurrenceKey, occurrence + 1);
+
+    const entryIndex = entryIndexes.get(unit.key)?.[occurrence];
+    if (entryIndex === undefined || !stringIndexes(entries[entryIndex]).includes(unit.variant)) {
+      unmatched++;
+      continue;
+    }
+    if (!unit.cleared && (unit.status === 'untranslated' || !unit.translation)) continue;
+    unitsByEntry.set(entryIndex, [...(unitsByEntry.get(entryIndex) ?? []), unit]);
+  }
+
+  let updated = 0;
+  const result = entries.map((entry, index) => {
+    const entryUnits = unitsByEntry.get(index);
+    if (!entryUnits) return entry;
+
+    let next = entry;
+    for (const unit of entryUnits) {
+      if (getEntryString(next, unit.variant) !== unit.translation) {
+        next = withEntryString(next, unit.variant, unit.translation);
+      }
+    }
+    next = importStatus(entry, next, entryUnits);
+
+    // Stale is per entry: it stays (or becomes) stale while any of its imported lines is
+    const staleUnit = entryUnits.find(unit => unit.status === 'stale');
+    const stale = staleUnit ? entry.stale ?? { previousEnglish: staleUnit.previousEnglish ?? entry.english } : undefined;
+    if (next === entry && stale === entry.stale) return entry;
+
+    updated++;
+    return { ...next, stale };
+  });
+
+  return { entries: result, updated, unmatched };
+}
@@ -0,0 +1,149 @@
+import type { InterchangeFormat, InterchangeUnit } from './types';
+
+// gettext PO. The key goes into msgctxt, with ":STR-n" appended for variant lines (keys cannot
+// contain a colon). Machine translations are fuzzy until someone reviews them; stale ones are
+// fuzzy too and keep the old English as the previous msgid. PO has no approved state, so a
+// translation that is not fuzzy reads back as reviewed.
+
+const VARIANT_CONTEXT = /^(.*):STR-(\d+)$/;
+
+const escapePo = (text: string) => text
+  .replace(/\\/g, '\\\\')
+  .replace(/"/g, '\\"')
+  .replace(/\n/g, '\\n')
+  .replace(/\r/g, '\\r')
+  .replace(/\t/g, '\\t');
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+const unescapePo = (text: string) => text.replace(/\\(.)/g, (match, char: string) => ESCAPES[char] ?? match);
+
+// Comment lines hold one note line each
+const commentLines = (prefix: string, text: string) => text.split('\n').map(line => `${prefix} ${line}`);
+
+function writeUnit(unit: InterchangeUnit): string {
+  const lines: string[] = [];
+  if (unit.comment) lines.push(...commentLines('#.', unit.comment));
+  if (unit.status === 'stale' || unit.status === 'machine') lines.push('#, fuzzy');
+  if (unit.status === 'stale' && unit.previousEnglish !== undefined) {
+    lines.push(`#| msgid "${escapePo(unit.previousEnglish)}"`);
+  }
+  lines.push(`msgctxt "${escapePo(unit.variant === 1 ? unit.key : `${unit.key}:STR-${unit.variant}`)}"`);
+  lines.push(`msgid "${escapePo(unit.english)}"`);
+  lines.push(`msgstr "${escapePo(unit.status === 'untranslated' ? '' : unit.translation)}"`);
+  return lines.join('\n');
+}
+
+interface PoMessage {
+  comments: string[];
+  flags: string[];
+  previousId?: string;
+  context?: string;
+  id?: string;
+  str?: string;
+}
+
+type PoField = 'previousId' | 'context' | 'id' | 'str';
+
+function parsePo(content: string): PoMessage[] {
+  const messages: PoMessage[] = [];
+  let message: PoMessage = { comments: [], flags: [] };
+  let field: PoField | null = null;
+
+  const flush = () => {
+    if (message.id !== undefined) messages.push(message);
+    message = { comments: [], flags: [] };
+    field = null;
+  };
+
+  const append = (target: PoField, quoted: string) => {
+    const value = unescapePo(quoted.replace(/^\s*"/, '').replace(/"\s*$/, ''));
+    message[target] = (message[target] ?? '') + value;
+    field = target;
+  };
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flush();
+    } else if (line.startsWith('#~')) {
+      // Obsolete messages are not imported
+      continue;
+    } else if (line.startsWith('#.')) {
+      message.comments.push(line.slice(2).trim());
+    } else if (line.startsWith('#,')) {
+      message.flags.push(...line.slice(2).split(',').map(flag => flag.trim()));
+    } else if (line.startsWith('#| msgid ')) {
+      append('previousId', line.slice('#| msgid '.length));
+    } else if (line.startsWith('#| "') && field === 'previousId') {
+      append('previousId', line.slice(2));
+    } else if (line.startsWith('#')) {
+      continue;
+    } else if (line.startsWith('msgctxt ')) {
+      // A new message can start without a blank line in between
+      if (message.id !== undefined) flush();
+      append('context', line.slice('msgctxt '.length));
+    } else if (line.startsWith('msgid ')) {
+      if (message.id !== undefined) flush();
+      append('id', line.slice('msgid '.length));
+    } else if (line.startsWith('msgstr ')) {
+      append('str', line.slice('msgstr '.length));
+    } else if (line.startsWith('msgstr[0] ')) {
+      append('str', line.slice('msgstr[0] '.length));
+    } else if (line.startsWith('"') && field) {
+      append(field, line);
+    } else {
+      throw new Error(`Unexpected PO line: ${line}`);
+    }
+  }
+  flush();
+
+  return messages;
+}
+
+export const poFormat: InterchangeFormat = {
+  id: 'po',
+  label: 'gettext PO',
+  extensions: ['.po'],
+  mimeType: 'text/x-gettext-translation',
+
+  write(units, meta) {
+    const header = [
+      `# Translation of ${meta.fileName}`,
+      'msgid ""',
+      'msgstr ""',
+      `"Language: ${meta.targetLanguage}\\n"`,
+      '"MIME-Version: 1.0\\n"',
+      '"Content-Type: text/plain; charset=UTF-8\\n"',
+      '"Content-Transfer-Encoding: 8bit\\n"',
+      `"X-Source-Language: ${meta.sourceLanguage}\\n"`
+    ].join('\n');
+
+    return [header, ...units.map(writeUnit)].join('\n\n') + '\n';
+  },
+
+  read(content) {
+    return parsePo(content)
+      // The header is the message with an empty msgid and no context
+      .filter(message => message.context !== undefined || message.id !== '')
+      .map((message): InterchangeUnit => {
+        const context = message.context ?? '';
+        const variantMatch = context.match(VARIANT_CONTEXT);
+        const translation = message.str ?? '';
+        const fuzzy = message.flags.includes('fuzzy');
+        const stale = fuzzy && message.previousId !== undefined;
+
+        return {
+          key: variantMatch ? variantMatch[1] : context,
+          variant: variantMatch ? Number(variantMatch[2]) : 1,
+          english: message.id ?? '',
+          translation,
+          status: !translation ? 'untranslated' : stale ? 'stale' : fuzzy ? 'machine' : 'reviewed',
+          comment: message.comments.join('\n') || undefined,
+          previousEnglish: stale ? message.previousId : undefined
+        };
+      })
+      .filter(unit => unit.key !== '');
+  }
+};
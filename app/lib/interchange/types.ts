@@ -0,0 +1,38 @@
+import type { StringStatus } from '../entries';
+
+/** One STR-n line of an entry, the unit every exchange format reads and writes */
+export interface InterchangeUnit {
+  key: string;
+  /** n of the STR-n line */
+  variant: number;
+  english: string;
+  translation: string;
+  /** Translator note from the .ltf comment */
+  comment?: string;
+  status: StringStatus;
+  /** English the translation was made for, when the status is stale */
+  previousEnglish?: string;
+  /**
+   * The file empties the translation on purpose, as opposed to just not having one. Only then
+   * does an empty translation replace the project's text on import.
+   */
+  cleared?: boolean;
+}
+
+export interface InterchangeMeta {
+  /** Name of the .ltf the units come from */
+  fileName: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface InterchangeFormat {
+  id: string;
+  label: string;
+  /** File extensions recognised on import, the first one used on export */
+  extensions: string[];
+  mimeType: string;
+  write(units: InterchangeUnit[], meta: InterchangeMeta): string;
+  /** Throws when the content is not a file of this format */
+  read(content: string): InterchangeUnit[];
+}
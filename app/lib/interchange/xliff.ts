@@ -0,0 +1,195 @@
+import { PLACEHOLDER_PATTERN } from '../entries';
+import type { StringStatus } from '../entries';
+import type { InterchangeFormat, InterchangeUnit } from './types';
+
+// XLIFF 2.0. One <unit> per entry named after its key, one <segment id="STR-n"> per STR-n line.
+// Placeholders ([...] and {...}, the spans the page masks before machine translation) become <ph>
+// codes pointing into <originalData>, so CAT tools protect them instead of offering them for edit.
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+const SEGMENT_ID = /^STR-(\d+)$/;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Review statuses map onto the XLIFF states in order: machine output is "translated", a reviewed
+// line "reviewed" and an approved one "final". Stale lines go out as "initial": the tool shows them
+// as needing work while the target stays filled
+const STATES: Record<StringStatus, string> = {
+  untranslated: 'initial',
+  translated: 'translated',
+  machine: 'translated',
+  reviewed: 'reviewed',
+  approved: 'final',
+  stale: 'initial'
+};
+
+const STATUS_OF_STATE: Record<string, StringStatus> = {
+  initial: 'machine',
+  translated: 'machine',
+  reviewed: 'reviewed',
+  final: 'approved'
+};
+
+/** Collects the placeholders of a unit; each distinct text is stored once in originalData */
+function createCodeTable() {
+  const dataIds = new Map<string, string>();
+  let codeCount = 0;
+
+  /**
+   * Text with placeholders as <ph>. Source codes get fresh ids; target codes reuse the id of a
+   * source code with the same text, which is how XLIFF pairs them up.
+   */
+  const markup = (text: string, sourceIds?: Map<string, string[]>) => {
+    const usedIds = new Map<string, number>();
+    const ids = new Map<string, string[]>();
+    let result = '';
+    let last = 0;
+
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      const code = match[0];
+      if (!dataIds.has(code)) dataIds.set(code, `d${dataIds.size + 1}`);
+
+      const occurrence = usedIds.get(code) ?? 0;
+      usedIds.set(code, occurrence + 1);
+      const id = sourceIds?.get(code)?.[occurrence] ?? `${++codeCount}`;
+      ids.set(code, [...(ids.get(code) ?? []), id]);
+
+      result += escapeXml(text.slice(last, match.index)) + `<ph id="${id}" dataRef="${dataIds.get(code)}"/>`;
+      last = (match.index ?? 0) + code.length;
+    }
+
+    return { xml: result + escapeXml(text.slice(last)), ids };
+  };
+
+  const originalData = () => dataIds.size === 0 ? [] : [
+    '      <originalData>',
+    ...Array.from(dataIds, ([code, id]) => `        <data id="${id}">${escapeXml(code)}</data>`),
+    '      </originalData>'
+  ];
+
+  return { markup, originalData };
+}
+
+function writeUnit(unitIndex: number, lines: InterchangeUnit[]): string[] {
+  const [first] = lines;
+  const codes = createCodeTable();
+
+  const segments = lines.flatMap(line => {
+    const source = codes.markup(line.english);
+    const hasTarget = line.status !== 'untranslated';
+    return [
+      `      <segment id="STR-${line.variant}" state="${STATES[line.status]}">`,
+      `        <source>${source.xml}</source>`,
+      ...(hasTarget ? [`        <target>${codes.markup(line.translation, source.ids).xml}</target>`] : []),
+      '      </segment>'
+    ];
+  });
+
+  const stale = lines.find(line => line.status === 'stale' && line.previousEnglish !== undefined);
+  const notes = [
+    ...(first.comment ? [`        <note category="comment">${escapeXml(first.comment)}</note>`] : []),
+    ...(stale ? [`        <note category="previous-source">${escapeXml(stale.previousEnglish ?? '')}</note>`] : [])
+  ];
+
+  return [
+    `    <unit id="u${unitIndex + 1}" name="${escapeXml(first.key)}">`,
+    ...(notes.length > 0 ? ['      <notes>', ...notes, '      </notes>'] : []),
+    ...codes.originalData(),
+    ...segments,
+    '    </unit>'
+  ];
+}
+
+/** Text content with <ph> codes replaced by their original data */
+function readContent(element: Element | null, data: Map<string, string>): string {
+  if (!element) return '';
+
+  let text = '';
+  element.childNodes.forEach(node => {
+    if (node.nodeType === node.TEXT_NODE || node.nodeType === node.CDATA_SECTION_NODE) {
+      text += node.textContent ?? '';
+    } else if (node.nodeType === node.ELEMENT_NODE) {
+      const child = node as Element;
+      if (child.localName === 'ph') {
+        const dataRef = child.getAttribute('dataRef');
+        text += (dataRef && data.get(dataRef)) ?? child.getAttribute('disp') ?? '';
+      } else {
+        text += readContent(child, data);
+      }
+    }
+  });
+  return text;
+}
+
+const childElements = (parent: Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+export const xliffFormat: InterchangeFormat = {
+  id: 'xliff',
+  label: 'XLIFF 2.0',
+  extensions: ['.xlf', '.xliff'],
+  mimeType: 'application/xliff+xml',
+
+  write(units, meta) {
+    // Units come in entry order with STR-1 first, so each STR-1 starts a new <unit>
+    const groups: InterchangeUnit[][] = [];
+    for (const unit of units) {
+      if (unit.variant === 1 || groups.length === 0) groups.push([unit]);
+      else groups[groups.length - 1].push(unit);
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeXml(meta.sourceLanguage)}" trgLang="${escapeXml(meta.targetLanguage)}">`,
+      `  <file id="f1" original="${escapeXml(meta.fileName)}">`,
+      ...groups.flatMap((group, index) => writeUnit(index, group)),
+      '  </file>',
+      '</xliff>',
+      ''
+    ].join('\n');
+  },
+
+  read(content) {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'xliff') {
+      throw new Error('Not an XLIFF file');
+    }
+    if (!doc.documentElement.getAttribute('version')?.startsWith('2.')) {
+      throw new Error('Only XLIFF 2.x is supported');
+    }
+
+    return childElements(doc.documentElement, 'unit').flatMap(unit => {
+      const key = unit.getAttribute('name') ?? '';
+      const data = new Map(childElements(unit, 'data').map(item => [item.getAttribute('id') ?? '', item.textContent ?? '']));
+      const notes = childElements(unit, 'note');
+      const note = (category: string) => notes.find(item => item.getAttribute('category') === category)?.textContent ?? undefined;
+      const previousEnglish = note('previous-source');
+
+      return childElements(unit, 'segment').map((segment, index): InterchangeUnit => {
+        const variant = Number(segment.getAttribute('id')?.match(SEGMENT_ID)?.[1] ?? index + 1);
+        const target = childElements(segment, 'target')[0] ?? null;
+        const translation = readContent(target, data);
+        const state = segment.getAttribute('state') ?? (target ? 'translated' : 'initial');
+        const status: StringStatus = !translation ? 'untranslated'
+          : state === 'initial' && previousEnglish !== undefined ? 'stale'
+          : STATUS_OF_STATE[state] ?? 'translated';
+
+        return {
+          key,
+          variant,
+          english: readContent(childElements(segment, 'source')[0] ?? null, data),
+          translation,
+          status,
+          comment: note('comment'),
+          previousEnglish: status === 'stale' ? previousEnglish : undefined,
+          // Untranslated lines go out without a <target>, so an empty one was emptied in the tool
+          ...(target && !translation && { cleared: true })
+        };
+      });
+    }).filter(unit => unit.key !== '');
+  }
+};
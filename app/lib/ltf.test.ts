@@ -0,0 +1,196 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { createLtfParser, extractEntries, getHeader, getString, lineEndingStyle, serializeLtf, serializeLtfChunks } from './ltf';
+import type { LtfDocument } from './ltf';
+
+// The fixtures hold the same lines with different terminators: LF with a final newline, CRLF
+// without one, CR, and all three in turn. .gitattributes keeps git from normalizing them.
+const FIXTURES = ['lf.ltf', 'crlf.ltf', 'cr.ltf', 'mixed.ltf'];
+
+const readFixture = (name: string) => readFileSync(new URL(`./__fixtures__/ltf/${name}`, import.meta.url));
+
+/** Parse in pieces of chunkSize characters, or in one piece */
+function parse(content: string, chunkSize = content.length): LtfDocument {
+  const parser = createLtfParser();
+  for (let offset = 0; offset < content.length; offset += chunkSize) {
+    parser.push(content.slice(offset, offset + chunkSize));
+  }
+  return parser.end();
+}
+
+const toBytes = (text: string) => Buffer.from(text, 'utf8');
+
+describe('round trip', () => {
+  for (const name of FIXTURES) {
+    it(`writes ${name} back byte for byte`, () => {
+      const bytes = readFixture(name);
+      const doc = parse(bytes.toString('utf8'));
+      expect(toBytes(serializeLtf(doc))).toEqual(bytes);
+    });
+
+    it(`parses ${name} the same whatever the chunk size`, () => {
+      const content = readFixture(name).toString('utf8');
+      const whole = parse(content);
+      for (const chunkSize of [1, 2, 3, 7, 64]) {
+        const doc = parse(content, chunkSize);
+        expect(doc).toEqual(whole);
+        expect(toBytes(serializeLtf(doc))).toEqual(readFixture(name));
+      }
+    });
+
+    it(`keeps ${name} unchanged when edits repeat the current values`, () => {
+      const bytes = readFixture(name);
+      const doc = parse(bytes.toString('utf8'));
+      // Reversed so that of a duplicate STR-n the first one, the one edits apply to, wins
+      const strings = new Map(doc.entries.map((entry, index) => [
+        index,
+        new Map(entry.strings.slice().reverse().map(str => [str.index, str.text]))
+      ]));
+      const headers = { LANGNAME: 'Bahasa Indonesia', GENDERS: '2', BASESTRINGS: '14' };
+      expect(toBytes(serializeLtf(doc, { strings, headers }))).toEqual(bytes);
+    });
+
+    it(`joins the chunks of ${name} into the whole output`, () => {
+      const doc = parse(readFixture(name).toString('utf8'));
+      const strings = new Map([[1, new Map([[1, 'Menu baru'], [4, 'Varian baru']])]]);
+      expect(Array.from(serializeLtfChunks(doc, { strings }, 3)).join('')).toBe(serializeLtf(doc, { strings }));
+    });
+  }
+});
+
+describe('parsing', () => {
+  const doc = parse(readFixture('lf.ltf').toString('utf8'));
+
+  it('reads the headers', () => {
+    expect(getHeader(doc, 'LANGNAME')).toBe('Bahasa Indonesia');
+    expect(getHeader(doc, 'GENDERS')).toBe('2');
+    expect(getHeader(doc, 'BASESTRINGS')).toBe('14');
+    expect(doc.headers.map(header => header.line)).toEqual([0, 2, 3]);
+  });
+
+  it('reads entries with their STR-n variants', () => {
+    expect(doc.entries.map(entry => entry.key)).toEqual([
+      'CUSTOM_FIELD', 'MENU_TITLE', 'NEWS_GOAL', 'MENU_TITLE', 'NO_TRANSLATION', 'BROKEN', 'INDENTED', 'ESCAPED'
+    ]);
+    const news = doc.entries[2];
+    expect(news.strings.map(str => [str.index, str.text])).toEqual([
+      [1, '{player} mencetak gol'],
+      [2, '{player} mencetak gol lagi'],
+      [3, ''],
+      [2, 'variant given twice']
+    ]);
+    expect(getString(doc.entries[6])).toBe('nilai dengan spasi');
+    expect(getString(doc.entries[7])).toBe('Baris pertama\\nBaris kedua');
+  });
+
+  it('separates translator comments from the source text', () => {
+    expect(doc.entries[1]).toMatchObject({ english: 'Main Menu', comment: 'shown at the top of the screen' });
+    expect(doc.entries[2]).toMatchObject({ english: '{player} scored', comment: 'he / she' });
+    expect(doc.entries[3].comment).toBeUndefined();
+  });
+
+  it('classifies every line', () => {
+    expect(doc.kinds).toEqual([
+      'header', 'unknown', 'header', 'header', 'entry', 'blank',
+      'entry', 'string', 'entry', 'string', 'string', 'string', 'string', 'blank',
+      'entry', 'string', 'unknown', 'unknown', 'entry', 'entry', 'string', 'entry', 'string', 'entry', 'string'
+    ]);
+  });
+
+  it('reports what FM or the translator may trip over', () => {
+    expect(doc.diagnostics.map(({ code, line, detail }) => [code, line, detail])).toEqual([
+      ['orphan-string', 1, 'STR-1: orphan before any key'],
+      ['unknown-header', 4, 'CUSTOM_FIELD'],
+      ['multiple-comments', 8, 'NEWS_GOAL'],
+      ['duplicate-string', 12, 'NEWS_GOAL STR-2'],
+      ['duplicate-key', 14, 'MENU_TITLE'],
+      ['unknown-line', 16, 'this line has no colon'],
+      ['unknown-line', 17, 'STR-7 without a colon'],
+      ['missing-str1', 18, 'NO_TRANSLATION'],
+      ['unbalanced-brackets', 19, '[unbalanced {bracket']
+    ]);
+  });
+});
+
+describe('line endings', () => {
+  it('recognizes the terminator style', () => {
+    const styles = FIXTURES.map(name => lineEndingStyle(parse(readFixture(name).toString('utf8'))));
+    expect(styles).toEqual(['\n', '\r\n', '\r', 'mixed']);
+    expect(lineEndingStyle(parse('KEY: value'))).toBeNull();
+  });
+
+  it('joins a CRLF split across chunks into one terminator', () => {
+    const parser = createLtfParser();
+    parser.push('KEY: Value\r');
+    parser.push('\nSTR-1: Nilai\r');
+    parser.push('\n');
+    const doc = parser.end();
+    expect(doc.lines).toEqual([
+      { text: 'KEY: Value', eol: '\r\n' },
+      { text: 'STR-1: Nilai', eol: '\r\n' }
+    ]);
+    expect(serializeLtf(doc)).toBe('KEY: Value\r\nSTR-1: Nilai\r\n');
+  });
+
+  it('keeps a CR at the very end as a terminator of its own', () => {
+    const parser = createLtfParser();
+    parser.push('KEY: Value\r\nSTR-1: Nilai\r');
+    const doc = parser.end();
+    expect(doc.lines.map(line => line.eol)).toEqual(['\r\n', '\r']);
+    expect(serializeLtf(doc)).toBe('KEY: Value\r\nSTR-1: Nilai\r');
+  });
+
+  it('converts every terminator on request', () => {
+    const doc = parse(readFixture('mixed.ltf').toString('utf8'));
+    expect(serializeLtf(doc, { lineEnding: '\r\n' })).toBe(readFixture('lf.ltf').toString('utf8').replace(/\n/g, '\r\n'));
+  });
+
+  it('inserts new lines with the most common terminator', () => {
+    const doc = parse(readFixture('crlf.ltf').toString('utf8'));
+    const output = serializeLtf(doc, { strings: new Map([[7, new Map([[2, 'Baris ketiga']])]]) });
+    // The last line had no terminator and the inserted one takes over that property
+    expect(output.endsWith('STR-1: Baris pertama\\nBaris kedua\r\nSTR-2: Baris ketiga')).toBe(true);
+  });
+});
+
+describe('edits', () => {
+  const content = readFixture('lf.ltf').toString('utf8');
+  const doc = parse(content);
+
+  it('rewrites only the edited value', () => {
+    const output = serializeLtf(doc, { strings: new Map([[6, new Map([[1, 'nilai baru']])]]) });
+    expect(output).toBe(content.replace('STR-1:   nilai dengan spasi\t', 'STR-1:   nilai baru\t'));
+  });
+
+  it('fills an empty STR-n line', () => {
+    const output = serializeLtf(doc, { strings: new Map([[2, new Map([[3, 'varian ketiga']])]]) });
+    expect(output).toBe(content.replace('STR-3:\n', 'STR-3: varian ketiga\n'));
+  });
+
+  it('edits a header and adds a missing one at the top', () => {
+    const patch = extractEntries(doc, [1]);
+    const headerless = { ...patch, headers: patch.headers.filter(header => header.name !== 'BASESTRINGS') };
+    const output = serializeLtf(headerless, { headers: { GENDERS: '3', BASESTRINGS: '2' } });
+    expect(output.split('\n').slice(0, 4)).toEqual(['BASESTRINGS: 2', 'LANGNAME: Bahasa Indonesia', 'GENDERS: 3', 'BASESTRINGS: 14']);
+  });
+
+  it('writes line breaks inside a value as \\n', () => {
+    const strings = new Map([
+      [1, new Map([[1, 'Menu\nUtama']])],
+      [7, new Map([[1, 'Satu\r\nDua\rTiga'], [2, 'Empat\nLima']])]
+    ]);
+    const output = serializeLtf(doc, { strings, headers: { LANGNAME: 'Bahasa\nIndonesia' } });
+    const reparsed = parse(output);
+
+    expect(reparsed.lines).toHaveLength(doc.lines.length + 1);
+    expect(getHeader(reparsed, 'LANGNAME')).toBe('Bahasa\\nIndonesia');
+    expect(getString(reparsed.entries[1])).toBe('Menu\\nUtama');
+    expect(getString(reparsed.entries[7])).toBe('Satu\\nDua\\nTiga');
+    expect(getString(reparsed.entries[7], 2)).toBe('Empat\\nLima');
+  });
+
+  it('treats an escaped value equal to the current one as unchanged', () => {
+    const output = serializeLtf(doc, { strings: new Map([[7, new Map([[1, 'Baris pertama\nBaris kedua']])]]) });
+    expect(output).toBe(content);
+  });
+});
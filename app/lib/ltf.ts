@@ -0,0 +1,417 @@
+// Lossless model of Football Manager .ltf language files.
+//
+// Every physical line is kept with its own terminator, so serializing an unedited document gives
+// back the exact input. Entries, headers and STR-n lines are indexes into those lines; edits only
+// rewrite (or insert) the lines they target and leave everything else byte for byte.
+
+export type LineEnding = '\n' | '\r\n' | '\r';
+
+export interface LtfLine {
+  text: string;
+  /** Terminator as found in the file; empty for a last line without one */
+  eol: LineEnding | '';
+}
+
+export type LtfHeaderName = 'LANGNAME' | 'GENDERS' | 'BASESTRINGS';
+
+export interface LtfHeader {
+  name: LtfHeaderName;
+  value: string;
+  line: number;
+}
+
+export interface LtfString {
+  /** n of the STR-n line */
+  index: number;
+  text: string;
+  line: number;
+}
+
+export interface LtfEntry {
+  key: string;
+  /** Source text with any [COMMENT: ...] removed */
+  english: string;
+  comment?: string;
+  line: number;
+  strings: LtfString[];
+}
+
+export type LtfLineKind = 'header' | 'entry' | 'string' | 'blank' | 'unknown';
+
+export type LtfDiagnosticCode =
+  | 'duplicate-key'
+  | 'orphan-string'
+  | 'missing-str1'
+  | 'duplicate-string'
+  | 'unbalanced-brackets'
+  | 'unknown-header'
+  | 'multiple-comments'
+  | 'unknown-line';
+
+/** Something in the input the parser kept as is but that FM or the translator may trip over */
+export interface LtfDiagnostic {
+  code: LtfDiagnosticCode;
+  /** Index into lines */
+  line: number;
+  /** Index into entries, for problems that belong to an entry */
+  entry?: number;
+  /** The key, bracket text or line involved */
+  detail: string;
+}
+
+export interface LtfDocument {
+  lines: LtfLine[];
+  /** Classification of each line, parallel to lines */
+  kinds: LtfLineKind[];
+  headers: LtfHeader[];
+  entries: LtfEntry[];
+  /** Most common terminator, used for lines the serializer inserts */
+  lineEnding: LineEnding;
+  /** Lint findings in line order */
+  diagnostics: LtfDiagnostic[];
+}
+
+/** New STR-n texts per entry index, keyed by n */
+export type LtfStringEdits = Map<number, Map<number, string>>;
+
+export interface LtfEdits {
+  strings?: LtfStringEdits;
+  /** Header values to replace; a header missing from the file is added at the top */
+  headers?: Partial<Record<LtfHeaderName, string>>;
+  /** Convert every line terminator; by default each line keeps its own */
+  lineEnding?: LineEnding;
+}
+
+const HEADER_PATTERN = /^(LANGNAME|GENDERS|BASESTRINGS):\s*(.*)$/;
+const STRING_PATTERN = /^STR-(\d+):\s*(.*)$/;
+const KEY_PATTERN = /^([^:]+):\s*(.+)$/;
+// Raw STR-n line split into what precedes the value, the value and trailing whitespace
+const STRING_PARTS = /^(\s*STR-\d+:\s*)(.*?)(\s*)$/;
+
+/** The single terminator used throughout the file, 'mixed', or null for a file of one line */
+export function lineEndingStyle(doc: LtfDocument): LineEnding | 'mixed' | null {
+  const found = new Set(doc.lines.map(line => line.eol).filter(eol => eol !== ''));
+  if (found.size === 0) return null;
+  return found.size === 1 ? found.values().next().value as LineEnding : 'mixed';
+}
+
+function dominantLineEnding(lines: LtfLine[]): LineEnding {
+  const counts = { '\n': 0, '\r\n': 0, '\r': 0 };
+  for (const { eol } of lines) {
+    if (eol) counts[eol]++;
+  }
+  return (Object.keys(counts) as LineEnding[]).reduce((best, eol) => counts[eol] > counts[best] ? eol : best, '\n');
+}
+
+const COMMENT_PATTERN = /\[COMMENT:\s*(.*?)\]/g;
+
+/**
+ * Split "text[COMMENT: note] more" into the translatable text and the translator note.
+ * Several comments are joined into one note.
+ */
+export function splitComment(fullText: string): { english: string, comment?: string } {
+  if (!fullText.includes('[COMMENT:')) return { english: fullText };
+  const comments = Array.from(fullText.matchAll(COMMENT_PATTERN), match => match[1].trim()).filter(Boolean);
+
+  const english = fullText
+    .split(COMMENT_PATTERN)
+    .filter((_, i) => i % 2 === 0)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(' ');
+  return comments.length > 0 ? { english, comment: comments.join(' / ') } : { english };
+}
+
+/** The first bracket that does not open and close properly, or null when [ ] and { } balance */
+export function unbalancedBrackets(text: string): string | null {
+  for (const [open, close] of [['[', ']'], ['{', '}']]) {
+    let depth = 0;
+    for (const char of text) {
+      if (char === open) depth++;
+      else if (char === close && --depth < 0) return close;
+    }
+    if (depth > 0) return open;
+  }
+  return null;
+}
+
+/**
+ * Incremental parser: feed decoded text in chunks of any size with push(), then call end().
+ * Lines and entries are available while parsing; lines are final once read, but the last entry
+ * may still gain STR-n lines until end().
+ */
+export function createLtfParser() {
+  const lines: LtfLine[] = [];
+  const kinds: LtfLineKind[] = [];
+  const headers: LtfHeader[] = [];
+  const entries: LtfEntry[] = [];
+  const diagnostics: LtfDiagnostic[] = [];
+  const seenKeys = new Set<string>();
+  let current: LtfEntry | null = null;
+  // Until an entry with STR-n lines shows up, key lines may be header fields FM does not know
+  let inHeader = true;
+  let pending = '';
+
+  const report = (code: LtfDiagnosticCode, line: number, detail: string, entry?: number) => {
+    diagnostics.push(entry === undefined ? { code, line, detail } : { code, line, detail, entry });
+  };
+
+  // Checks that need all STR-n lines of the entry, run when the next key or the end arrives
+  const closeEntry = () => {
+    if (!current) return;
+    const entryIndex = entries.length - 1;
+
+    if (current.strings.length === 0 && inHeader && /^[A-Z][A-Z_]*$/.test(current.key)) {
+      report('unknown-header', current.line, current.key, entryIndex);
+    } else if (!current.strings.some(str => str.index === 1)) {
+      report('missing-str1', current.line, current.key, entryIndex);
+    }
+    if (current.strings.length > 0) inHeader = false;
+
+    for (const text of [current.english, ...current.strings.map(str => str.text)]) {
+      if (unbalancedBrackets(text)) {
+        report('unbalanced-brackets', current.line, text, entryIndex);
+        break;
+      }
+    }
+  };
+
+  const classify = (text: string, lineIndex: number): LtfLineKind => {
+    const line = text.trim();
+    if (!line) return 'blank';
+
+    const headerMatch = line.match(HEADER_PATTERN);
+    if (headerMatch) {
+      headers.push({ name: headerMatch[1] as LtfHeaderName, value: headerMatch[2].trim(), line: lineIndex });
+      return 'header';
+    }
+
+    const stringMatch = line.match(STRING_PATTERN);
+    if (stringMatch) {
+      // A STR-n line before any key has nothing to belong to
+      if (!current) {
+        report('orphan-string', lineIndex, line);
+        return 'unknown';
+      }
+      const index = Number(stringMatch[1]);
+      if (current.strings.some(str => str.index === index)) {
+        report('duplicate-string', lineIndex, `${current.key} STR-${index}`, entries.length - 1);
+      }
+      current.strings.push({ index, text: stringMatch[2].trim(), line: lineIndex });
+      return 'string';
+    }
+
+    const keyMatch = line.match(KEY_PATTERN);
+    if (keyMatch && !line.startsWith('STR-')) {
+      closeEntry();
+      const key = keyMatch[1].trim();
+      const text = keyMatch[2].trim();
+      current = { key, ...splitComment(text), line: lineIndex, strings: [] };
+      entries.push(current);
+
+      if (seenKeys.has(key)) report('duplicate-key', lineIndex, key, entries.length - 1);
+      seenKeys.add(key);
+      if ((text.match(COMMENT_PATTERN) ?? []).length > 1) report('multiple-comments', lineIndex, key, entries.length - 1);
+      return 'entry';
+    }
+
+    report('unknown-line', lineIndex, line);
+    return 'unknown';
+  };
+
+  const addLine = (text: string, eol: LtfLine['eol']) => {
+    kinds.push(classify(text, lines.length));
+    lines.push({ text, eol });
+  };
+
+  return {
+    push(chunk: string) {
+      pending += chunk;
+      let start = 0;
+
+      for (let i = 0; i < pending.length; i++) {
+        const char = pending[i];
+        if (char !== '\n' && char !== '\r') continue;
+        // A CR at the end of the chunk may be the first half of a CRLF
+        if (char === '\r' && i === pending.length - 1) break;
+
+        const eol: LineEnding = char === '\r' && pending[i + 1] === '\n' ? '\r\n' : char;
+        addLine(pending.slice(start, i), eol);
+        i += eol.length - 1;
+        start = i + 1;
+      }
+
+      pending = pending.slice(start);
+    },
+
+    /** Complete lines read so far */
+    get lines(): readonly LtfLine[] {
+      return lines;
+    },
+
+    /** Classification of the lines read so far */
+    get kinds(): readonly LtfLineKind[] {
+      return kinds;
+    },
+
+    /** Entries parsed so far */
+    get entries(): readonly LtfEntry[] {
+      return entries;
+    },
+
+    end(): LtfDocument {
+      if (pending.endsWith('\r')) {
+        addLine(pending.slice(0, -1), '\r');
+      } else if (pending) {
+        addLine(pending, '');
+      }
+      pending = '';
+      closeEntry();
+      current = null;
+      diagnostics.sort((a, b) => a.line - b.line);
+      return { lines, kinds, headers, entries, lineEnding: dominantLineEnding(lines), diagnostics };
+    }
+  };
+}
+
+export function getHeader(doc: LtfDocument, name: LtfHeaderName): string | undefined {
+  return doc.headers.find(header => header.name === name)?.value;
+}
+
+/** Text of the first STR-n line of an entry, or undefined when the entry has none */
+export function getString(entry: LtfEntry, index = 1): string | undefined {
+  return entry.strings.find(str => str.index === index)?.text;
+}
+
+/**
+ * A document holding the headers and only the given entries (each with its key and STR-n lines),
+ * in the order given, e.g. a patch of changed entries. Lines keep their text and terminators.
+ */
+export function extractEntries(doc: LtfDocument, entryIndexes: number[]): LtfDocument {
+  const lines: LtfLine[] = [];
+  const kinds: LtfLineKind[] = [];
+
+  const copyLine = (lineIndex: number) => {
+    lines.push(doc.lines[lineIndex]);
+    kinds.push(doc.kinds[lineIndex]);
+    return lines.length - 1;
+  };
+
+  const headers = doc.headers.map(header => ({ ...header, line: copyLine(header.line) }));
+
+  const entries = entryIndexes.map(entryIndex => {
+    const entry = doc.entries[entryIndex];
+    const lastLine = entry.strings.reduce((last, str) => Math.max(last, str.line), entry.line);
+    const offset = lines.length - entry.line;
+    for (let lineIndex = entry.line; lineIndex <= lastLine; lineIndex++) copyLine(lineIndex);
+    return { ...entry, line: entry.line + offset, strings: entry.strings.map(str => ({ ...str, line: str.line + offset })) };
+  });
+
+  // The file's unterminated last line may now sit in the middle
+  lines.forEach((line, lineIndex) => {
+    if (!line.eol && lineIndex < lines.length - 1) lines[lineIndex] = { ...line, eol: doc.lineEnding };
+  });
+
+  return { lines, kinds, headers, entries, lineEnding: doc.lineEnding, diagnostics: [] };
+}
+
+/**
+ * A value is one physical line, so a line break typed into it is written the way FM spells one
+ * inside a string: a backslash followed by n. Writing it raw would split the line in two.
+ */
+export function escapeLineBreaks(text: string): string {
+  return text.replace(/\r\n|\r|\n/g, '\\n');
+}
+
+function rewriteString(line: LtfLine, text: string): LtfLine {
+  const parts = line.text.match(STRING_PARTS);
+  if (!parts) return line;
+  // "STR-1:" with an empty value has no space to keep
+  const prefix = /\s$/.test(parts[1]) ? parts[1] : parts[1] + ' ';
+  return { ...line, text: prefix + text + parts[3] };
+}
+
+function rewriteHeader(line: LtfLine, value: string): LtfLine {
+  const parts = line.text.match(/^(\s*[A-Z]+:\s*)(.*?)(\s*)$/);
+  if (!parts) return line;
+  const prefix = /\s$/.test(parts[1]) ? parts[1] : parts[1] + ' ';
+  return { ...line, text: prefix + value + parts[3] };
+}
+
+/**
+ * Write the document back to text, applying edits. Lines that are not edited, and edits that
+ * leave a value unchanged, come out exactly as they were read. STR-n lines that do not exist
+ * yet are inserted after the entry's last line, in increasing n.
+ */
+export function serializeLtf(doc: LtfDocument, edits: LtfEdits = {}): string {
+  return Array.from(serializeLtfChunks(doc, edits)).join('');
+}
+
+/**
+ * serializeLtf in pieces of about linesPerChunk source lines each, for files too large to hold
+ * as one string. Joined, the chunks are exactly serializeLtf's output.
+ */
+export function* serializeLtfChunks(doc: LtfDocument, edits: LtfEdits = {}, linesPerChunk = 10000): Generator<string> {
+  const replaced = new Map<number, LtfLine>();
+  const inserted = new Map<number, string[]>();
+  const prepended: string[] = [];
+
+  for (const [name, rawValue] of Object.entries(edits.headers ?? {}) as Array<[LtfHeaderName, string]>) {
+    const value = escapeLineBreaks(rawValue);
+    const header = doc.headers.find(h => h.name === name);
+    if (!header) {
+      prepended.push(`${name}: ${value}`);
+    } else if (header.value !== value) {
+      replaced.set(header.line, rewriteHeader(doc.lines[header.line], value));
+    }
+  }
+
+  for (const [entryIndex, strings] of edits.strings ?? []) {
+    const entry = doc.entries[entryIndex];
+    if (!entry) continue;
+
+    const additions: Array<[number, string]> = [];
+    for (const [index, rawText] of strings) {
+      const text = escapeLineBreaks(rawText);
+      const existing = entry.strings.find(str => str.index === index);
+      if (!existing) {
+        additions.push([index, text]);
+      } else if (existing.text !== text) {
+        replaced.set(existing.line, rewriteString(doc.lines[existing.line], text));
+      }
+    }
+
+    if (additions.length > 0) {
+      const lastLine = entry.strings.reduce((last, str) => Math.max(last, str.line), entry.line);
+      inserted.set(lastLine, additions
+        .sort(([a], [b]) => a - b)
+        .map(([index, text]) => `STR-${index}: ${text}`));
+    }
+  }
+
+  const newLine = edits.lineEnding ?? doc.lineEnding;
+  const terminator = (eol: LtfLine['eol']) => eol && edits.lineEnding ? edits.lineEnding : eol;
+
+  let parts: string[] = prepended.map(line => line + newLine);
+  for (let lineIndex = 0; lineIndex < doc.lines.length; lineIndex++) {
+    const line = replaced.get(lineIndex) ?? doc.lines[lineIndex];
+    const additions = inserted.get(lineIndex);
+    if (!additions) {
+      parts.push(line.text + terminator(line.eol));
+    } else {
+      // A last line without a terminator keeps that property after the inserted lines
+      parts.push(line.text + (terminator(line.eol) || newLine));
+      additions.forEach((text, i) => {
+        const isLast = i === additions.length - 1;
+        parts.push(text + (isLast ? terminator(line.eol) : newLine));
+      });
+    }
+
+    if ((lineIndex + 1) % linesPerChunk === 0) {
+      yield parts.join('');
+      parts = [];
+    }
+  }
+
+  if (parts.length > 0) yield parts.join('');
+}
@@ -0,0 +1,115 @@
+import { encodeText } from './encoding';
+import type { TextFormat } from './encoding';
+import { serializeLtfChunks } from './ltf';
+import type { LtfDocument, LtfEdits } from './ltf';
+
+// Chunked export of a document, so large projects are never held as one string and the page
+// stays responsive while writing. The bytes are those of encodeText(serializeLtf(doc, edits), format).
+
+export interface ExportSink {
+  write(bytes: Uint8Array<ArrayBuffer>): Promise<void> | void;
+  close(): Promise<void> | void;
+  /** Discard what was written after a cancel or an error */
+  abort(): Promise<void> | void;
+}
+
+export interface ExportOptions {
+  /** Source lines written so far out of the document's total */
+  onProgress?: (written: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+const LINES_PER_CHUNK = 5000;
+
+/** Returns false when cancelled; the sink is then aborted */
+export async function writeLtf(
+  doc: LtfDocument,
+  edits: LtfEdits,
+  format: TextFormat,
+  sink: ExportSink,
+  { onProgress, isCancelled }: ExportOptions = {}
+): Promise<boolean> {
+  const total = doc.lines.length;
+  let written = 0;
+
+  try {
+    // Encoding empty text gives just the BOM, if the format has one; chunks are encoded without it
+    await sink.write(encodeText('', format));
+    const chunkFormat = { ...format, bom: false };
+
+    for (const chunk of serializeLtfChunks(doc, edits, LINES_PER_CHUNK)) {
+      if (isCancelled?.()) {
+        await sink.abort();
+        return false;
+      }
+
+      await sink.write(encodeText(chunk, chunkFormat));
+      written = Math.min(total, written + LINES_PER_CHUNK);
+      onProgress?.(written, total);
+
+      // Let the page render progress and handle the cancel button
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    await sink.close();
+    return true;
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+}
+
+/** Collects the chunks into a Blob, which the browser can keep outside the JS heap */
+export function createBlobSink(type: string) {
+  let parts: BlobPart[] = [];
+  let blob: Blob | null = null;
+
+  return {
+    write(bytes: Uint8Array<ArrayBuffer>) {
+      parts.push(bytes);
+    },
+    close() {
+      blob = new Blob(parts, { type });
+      parts = [];
+    },
+    abort() {
+      parts = [];
+    },
+    /** The finished file, available after close() */
+    get blob(): Blob | null {
+      return blob;
+    }
+  };
+}
+
+/** Writes straight to a file picked with the File System Access API */
+export async function createFileSink(handle: FileSystemFileHandle): Promise<ExportSink> {
+  const writable = await handle.createWritable();
+  return {
+    write: bytes => writable.write(bytes),
+    close: () => writable.close(),
+    abort: () => writable.abort()
+  };
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: Array<{ description?: string; accept: Record<string, string[]> }>;
+}
+
+type SaveFilePicker = (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+
+/**
+ * Ask for a save location where the browser supports it (Chromium). Null means the browser
+ * has no picker, in which case the export falls back to a Blob download. A dismissed picker
+ * rejects with an AbortError.
+ */
+export async function pickSaveFile(suggestedName: string): Promise<FileSystemFileHandle | null> {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) return null;
+
+  return picker({
+    suggestedName,
+    types: [{ description: 'Football Manager language file', accept: { 'text/plain': ['.ltf'] } }]
+  });
+}
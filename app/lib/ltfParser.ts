@@ -0,0 +1,89 @@
+import type { TextFormat } from './encoding';
+import type { LTFEntry } from './entries';
+import type { LtfDocument, LtfEntry, LtfLine, LtfLineKind } from './ltf';
+import type { ParseMessage, ParseRequest } from './ltfParser.worker';
+
+// Main-thread side of ltfParser.worker: runs one file through a fresh worker and collects the result.
+
+export interface ParsedLtfFile {
+  document: LtfDocument;
+  format: TextFormat;
+  entries: LTFEntry[];
+}
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  /** Entries received so far */
+  entryCount: number;
+}
+
+export interface LtfParseJob {
+  /** Null when the job was cancelled */
+  result: Promise<ParsedLtfFile | null>;
+  cancel(): void;
+}
+
+export function parseLtfFile(file: File, onProgress?: (progress: ParseProgress) => void): LtfParseJob {
+  const worker = new Worker(new URL('./ltfParser.worker.ts', import.meta.url));
+  let entries: LTFEntry[] = [];
+  // The document arrives in pieces alongside the entries
+  let lines: LtfLine[] = [];
+  let kinds: LtfLineKind[] = [];
+  let sourceEntries: LtfEntry[] = [];
+  let settle: (parsed: ParsedLtfFile | null) => void = () => {};
+
+  const result = new Promise<ParsedLtfFile | null>((resolve, reject) => {
+    settle = parsed => {
+      worker.terminate();
+      resolve(parsed);
+    };
+
+    const fail = (message: string) => {
+      worker.terminate();
+      reject(new Error(message));
+    };
+
+    worker.onmessage = (event: MessageEvent<ParseMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.({ bytesRead: message.bytesRead, totalBytes: message.totalBytes, entryCount: entries.length });
+          break;
+        case 'lines':
+          lines.push(...message.lines);
+          kinds.push(...message.kinds);
+          break;
+        case 'entries':
+          entries.push(...message.entries);
+          sourceEntries.push(...message.sourceEntries);
+          break;
+        case 'reset':
+          entries = [];
+          lines = [];
+          kinds = [];
+          sourceEntries = [];
+          break;
+        case 'done': {
+          lines.push(...message.lines);
+          kinds.push(...message.kinds);
+          const { headers, lineEnding, diagnostics, format } = message;
+          settle({ document: { lines, kinds, headers, entries: sourceEntries, lineEnding, diagnostics }, format, entries });
+          break;
+        }
+        case 'error':
+          fail(message.message);
+          break;
+      }
+    };
+
+    worker.onerror = event => fail(event.message || 'Parser worker failed');
+  });
+
+  worker.postMessage({ type: 'parse', file } satisfies ParseRequest);
+
+  return {
+    result,
+    cancel: () => settle(null)
+  };
+}
@@ -0,0 +1,128 @@
+import { createDecoderStream, sniffFormat } from './encoding';
+import type { TextFormat } from './encoding';
+import { entryFromLtf } from './entries';
+import type { LTFEntry } from './entries';
+import { createLtfParser } from './ltf';
+import type { LineEnding, LtfDiagnostic, LtfEntry, LtfHeader, LtfLine, LtfLineKind } from './ltf';
+
+// Parses an uploaded .ltf off the main thread, streaming the file instead of reading it whole.
+// The page posts { type: 'parse', file } and receives, in order:
+//   progress  bytes read so far, at most once per percent
+//   lines     lines of the document in file order, in chunks
+//   entries   finished entries in file order, in chunks, both as the page edits them and as parsed
+//   reset     the file turned out not to be UTF-8; drop what arrived and expect it again
+//   done      the lines not sent yet, the rest of the document and the detected format
+//   error     message
+// Every part of the document crosses to the page once, so the page assembles it from the chunks.
+// Cancelling is done by terminating the worker.
+
+export interface ParseRequest {
+  type: 'parse';
+  file: File;
+}
+
+export type ParseMessage =
+  | { type: 'progress'; bytesRead: number; totalBytes: number }
+  | { type: 'lines'; lines: LtfLine[]; kinds: LtfLineKind[] }
+  | { type: 'entries'; entries: LTFEntry[]; sourceEntries: LtfEntry[] }
+  | { type: 'reset' }
+  | {
+      type: 'done';
+      lines: LtfLine[];
+      kinds: LtfLineKind[];
+      headers: LtfHeader[];
+      lineEnding: LineEnding;
+      diagnostics: LtfDiagnostic[];
+      format: TextFormat;
+    }
+  | { type: 'error'; message: string };
+
+const ENTRY_CHUNK_SIZE = 5000;
+const LINE_CHUNK_SIZE = 20000;
+const HEAD_BYTES = 4096;
+
+const post = (message: ParseMessage) => self.postMessage(message);
+
+async function parseFile(file: File, format: TextFormat, fatal: boolean): Promise<void> {
+  const parser = createLtfParser();
+  let bytesRead = 0;
+  let lastPercent = -1;
+  let sent = 0;
+  let sentLines = 0;
+
+  const sendParsed = (final: boolean) => {
+    // The newest entry can still receive STR-n lines until the next key or the end of the file
+    const ready = final ? parser.entries.length : parser.entries.length - 1;
+    while (ready - sent >= ENTRY_CHUNK_SIZE || (final && sent < ready)) {
+      const end = Math.min(ready, sent + ENTRY_CHUNK_SIZE);
+      const sourceEntries = parser.entries.slice(sent, end);
+      post({ type: 'entries', entries: sourceEntries.map(entryFromLtf), sourceEntries });
+      sent = end;
+    }
+
+    // Lines never change once read; the last partial chunk goes out with done
+    while (parser.lines.length - sentLines >= LINE_CHUNK_SIZE) {
+      const end = sentLines + LINE_CHUNK_SIZE;
+      post({ type: 'lines', lines: parser.lines.slice(sentLines, end), kinds: parser.kinds.slice(sentLines, end) });
+      sentLines = end;
+    }
+  };
+
+  const countBytes = new TransformStream<Uint8Array<ArrayBuffer>, BufferSource>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      const percent = Math.floor((bytesRead / file.size) * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        post({ type: 'progress', bytesRead, totalBytes: file.size });
+      }
+      controller.enqueue(chunk);
+    }
+  });
+
+  const reader = file.stream()
+    .pipeThrough(countBytes)
+    .pipeThrough(createDecoderStream(format, fatal))
+    .getReader();
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    parser.push(value);
+    sendParsed(false);
+  }
+
+  const { lines, kinds, headers, lineEnding, diagnostics } = parser.end();
+  sendParsed(true);
+  post({
+    type: 'done',
+    lines: lines.slice(sentLines),
+    kinds: kinds.slice(sentLines),
+    headers,
+    lineEnding,
+    diagnostics,
+    format
+  });
+}
+
+self.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  const { file } = event.data;
+
+  try {
+    const sniffed = sniffFormat(new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer()));
+    const format: TextFormat = sniffed ?? { encoding: 'utf-8', bom: false };
+
+    try {
+      // Without a BOM or UTF-16 pattern, UTF-8 is only an assumption, so decode strictly
+      await parseFile(file, format, sniffed === null);
+    } catch (error) {
+      if (sniffed !== null || !(error instanceof TypeError)) throw error;
+
+      // Not valid UTF-8: older Windows tools write the ANSI code page
+      post({ type: 'reset' });
+      await parseFile(file, { encoding: 'windows-1252', bom: false }, false);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { GlossaryEntry } from './glossary';
+import { memoryKey } from './memory';
+
+const CLUB: GlossaryEntry = { source: 'club', target: 'klub', doNotTranslate: false };
+const LEAGUE: GlossaryEntry = { source: 'Premier League', target: 'Liga Utama', doNotTranslate: false };
+
+describe('memory keys', () => {
+  it('keeps the old key for lines without glossary terms', () => {
+    expect(memoryKey('The match starts', undefined, 'fm', undefined, [CLUB])).toBe(memoryKey('The match starts', undefined, 'fm'));
+    expect(memoryKey('Bench', undefined, 'fm', '2', [CLUB])).toBe(memoryKey('Bench', undefined, 'fm', '2'));
+  });
+
+  it('changes when a term in the line is added or changed', () => {
+    const plain = memoryKey('Your club won', undefined, 'fm');
+    const withTerm = memoryKey('Your club won', undefined, 'fm', undefined, [CLUB]);
+    expect(withTerm).not.toBe(plain);
+    expect(memoryKey('Your club won', undefined, 'fm', undefined, [{ ...CLUB, target: 'tim' }])).not.toBe(withTerm);
+    expect(memoryKey('Your club won', undefined, 'fm', undefined, [{ ...CLUB, doNotTranslate: true }])).not.toBe(withTerm);
+  });
+
+  it('does not depend on the order of the glossary', () => {
+    const text = 'Your club joins the Premier League';
+    expect(memoryKey(text, undefined, 'fm', undefined, [CLUB, LEAGUE])).toBe(memoryKey(text, undefined, 'fm', undefined, [LEAGUE, CLUB]));
+  });
+});
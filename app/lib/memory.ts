@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { matchGlossary, requiredTerm } from './glossary';
+import type { GlossaryEntry } from './glossary';
+import type { TranslationItem, TranslationProvider } from './providers/types';
+import { isRejectionResponse } from './rejection';
+
+// Exact-match translation memory. Records are appended to a JSON Lines file and
+// loaded into a Map on first use; later lines win, so re-translations simply override.
+
+interface MemoryRecord {
+  key: string;
+  source: string;
+  context?: string;
+  variant?: string;
+  profile: string;
+  translation: string;
+  provider: string;
+  createdAt: string;
+}
+
+export interface MemoryEntry {
+  text: string;
+  context?: string;
+  variant?: string;
+  translation: string;
+}
+
+export interface TranslationMemory {
+  lookup(text: string, context: string | undefined, profileId: string, variant?: string, glossary?: GlossaryEntry[]): string | undefined;
+  remember(entries: MemoryEntry[], profileId: string, provider: string, glossary?: GlossaryEntry[]): Promise<void>;
+}
+
+function normalize(text: string | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+// Sources arrive already masked by the client (placeholders as __BRACKET_n__), so the
+// same English line always hashes the same no matter what its placeholders contain.
+// STR-n variants get keys of their own; plain entries keep the keys they always had.
+// The glossary terms found in the text are part of the key too, so a translation made
+// before a term was added or changed is not served again; lines without terms keep theirs.
+export function memoryKey(
+  text: string,
+  context: string | undefined,
+  profileId: string,
+  variant?: string,
+  glossary: GlossaryEntry[] = []
+): string {
+  const parts: unknown[] = [normalize(text), normalize(context), profileId];
+  if (variant) parts.push(variant);
+
+  const terms = matchGlossary(glossary, [text])
+    .map(entry => [normalize(entry.source).toLowerCase(), normalize(requiredTerm(entry)), entry.doNotTranslate])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])) || String(a[1]).localeCompare(String(b[1])));
+  if (terms.length > 0) parts.push({ glossary: terms });
+
+  return createHash('sha256')
+    .update(JSON.stringify(parts))
+    .digest('hex');
+}
+
+async function createTranslationMemory(filePath: string): Promise<TranslationMemory> {
+  const records = new Map<string, string>();
+
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: MemoryRecord = JSON.parse(line);
+        records.set(record.key, record.translation);
+      } catch {
+        // A torn last line after a crash only loses that one record
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  // Serialize appends so concurrent requests never interleave partial lines
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  return {
+    lookup(text, context, profileId, variant, glossary) {
+      return records.get(memoryKey(text, context, profileId, variant, glossary));
+    },
+
+    remember(entries, profileId, provider, glossary) {
+      if (entries.length === 0) return writeQueue;
+
+      const createdAt = new Date().toISOString();
+      const lines = entries.map(({ text, context, variant, translation }) => {
+        const record: MemoryRecord = {
+          key: memoryKey(text, context, profileId, variant, glossary),
+          source: normalize(text),
+          context: normalize(context) || undefined,
+          variant,
+          profile: profileId,
+          translation,
+          provider,
+          createdAt
+        };
+        records.set(record.key, translation);
+        return JSON.stringify(record) + '\n';
+      });
+
+      writeQueue = writeQueue
+        .then(async () => {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.appendFile(filePath, lines.join(''), 'utf8');
+        })
+        .catch(error => {
+          console.error('Failed to persist translation memory:', error);
+        });
+      return writeQueue;
+    }
+  };
+}
+
+/** Split batch items into memory hits (keyed by item ID) and items that still need the provider */
+export function partitionCached(
+  memory: TranslationMemory | null,
+  items: TranslationItem[],
+  profileId: string,
+  glossary: GlossaryEntry[] = []
+): { cached: Record<string, string>; uncached: TranslationItem[] } {
+  const cached: Record<string, string> = {};
+  const uncached = items.filter(item => {
+    const hit = memory?.lookup(item.text, item.context, profileId, item.variant, glossary);
+    if (hit === undefined) return true;
+    cached[item.id] = hit;
+    return false;
+  });
+  return { cached, uncached };
+}
+
+/** Store fresh translations; mock output and rejections are not real translations and are skipped */
+export async function rememberTranslations(
+  memory: TranslationMemory | null,
+  provider: TranslationProvider,
+  entries: MemoryEntry[],
+  profileId: string,
+  glossary: GlossaryEntry[] = []
+): Promise<void> {
+  if (!memory || provider.name === 'mock') return;
+  await memory.remember(
+    entries.filter(({ translation }) => translation.trim() && !isRejectionResponse(translation)),
+    profileId,
+    provider.name,
+    glossary
+  );
+}
+
+let memoryPromise: Promise<TranslationMemory | null> | null = null;
+
+/**
+ * Shared memory for this server process, or null when disabled with TRANSLATION_MEMORY=off.
+ * The file defaults to .data/translation-memory.jsonl and can be moved with TRANSLATION_MEMORY_FILE.
+ */
+export function getTranslationMemory(): Promise<TranslationMemory | null> {
+  if (!memoryPromise) {
+    memoryPromise = process.env.TRANSLATION_MEMORY === 'off'
+      ? Promise.resolve(null)
+      : createTranslationMemory(
+          process.env.TRANSLATION_MEMORY_FILE || path.join(process.cwd(), '.data', 'translation-memory.jsonl')
+        ).catch(error => {
+          console.error('Translation memory unavailable:', error);
+          memoryPromise = null;
+          return null;
+        });
+  }
+  return memoryPromise;
+}
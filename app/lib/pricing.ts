@@ -0,0 +1,97 @@
+// Token usage ledger and cost calculation from an editable price table. Shared by the API and the page.
+
+export interface TokenUsage {
+  /** Model name as configured on the server, used to look up its price */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Part of inputTokens served from the provider's prompt cache */
+  cachedTokens: number;
+}
+
+export interface ModelPrice {
+  model: string;
+  /** USD per 1M tokens */
+  inputPer1M: number;
+  cachedInputPer1M: number;
+  outputPer1M: number;
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  requests: number;
+}
+
+/** Token totals per model; cost is derived on demand so edits to the price table apply retroactively */
+export type UsageLedger = Record<string, ModelUsage>;
+
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gpt-4o-mini', inputPer1M: 0.15, cachedInputPer1M: 0.075, outputPer1M: 0.6 },
+  { model: 'gpt-4o', inputPer1M: 2.5, cachedInputPer1M: 1.25, outputPer1M: 10 },
+  { model: 'gpt-4.1-mini', inputPer1M: 0.4, cachedInputPer1M: 0.1, outputPer1M: 1.6 },
+  { model: 'gpt-4.1-nano', inputPer1M: 0.1, cachedInputPer1M: 0.025, outputPer1M: 0.4 }
+];
+
+export const DEFAULT_USD_TO_IDR = 16500;
+
+/** Add two usages of the same model, e.g. the calls made for one batch */
+export function sumUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    model: a.model,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens
+  };
+}
+
+export function addToLedger(ledger: UsageLedger, usage: TokenUsage): UsageLedger {
+  const current = ledger[usage.model] || { inputTokens: 0, outputTokens: 0, cachedTokens: 0, requests: 0 };
+  return {
+    ...ledger,
+    [usage.model]: {
+      inputTokens: current.inputTokens + usage.inputTokens,
+      outputTokens: current.outputTokens + usage.outputTokens,
+      cachedTokens: current.cachedTokens + usage.cachedTokens,
+      requests: current.requests + 1
+    }
+  };
+}
+
+export function usageCost(usage: Omit<ModelUsage, 'requests'>, price: ModelPrice): number {
+  const uncachedInput = Math.max(0, usage.inputTokens - usage.cachedTokens);
+  return (
+    uncachedInput * price.inputPer1M +
+    usage.cachedTokens * price.cachedInputPer1M +
+    usage.outputTokens * price.outputPer1M
+  ) / 1_000_000;
+}
+
+export interface LedgerTotals extends ModelUsage {
+  costUsd: number;
+  /** Models with usage but no row in the price table; their cost is counted as 0 */
+  unpricedModels: string[];
+}
+
+export function ledgerTotals(ledger: UsageLedger, prices: ModelPrice[]): LedgerTotals {
+  const totals: LedgerTotals = { inputTokens: 0, outputTokens: 0, cachedTokens: 0, requests: 0, costUsd: 0, unpricedModels: [] };
+
+  for (const [model, usage] of Object.entries(ledger)) {
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.cachedTokens += usage.cachedTokens;
+    totals.requests += usage.requests;
+
+    const price = prices.find(p => p.model === model);
+    if (price) {
+      totals.costUsd += usageCost(usage, price);
+    } else {
+      totals.unpricedModels.push(model);
+    }
+  }
+
+  return totals;
+}
@@ -0,0 +1,73 @@
+import type { GlossaryEntry } from './glossary';
+
+// Target-language and style profiles. Shared by the page (selection, LTF header) and the API (prompts).
+
+export interface TranslationExample {
+  source: string;
+  target: string;
+}
+
+export interface TranslationProfile {
+  id: string;
+  /** Name shown in the profile selector */
+  label: string;
+  /** Language name used in prompts and table headers */
+  targetLanguage: string;
+  /** ISO 639-1 code for providers that take a language code (LibreTranslate, mock) */
+  languageCode: string;
+  /** Style instructions appended to the system prompt */
+  tone: string;
+  examples: TranslationExample[];
+  /** Value written to the LANGNAME header of exported .ltf files */
+  ltfLanguageName: string;
+  /** Project glossary terms found in the texts of a request, added by the API route */
+  glossary?: GlossaryEntry[];
+}
+
+export const PROFILES: TranslationProfile[] = [
+  {
+    id: 'id',
+    label: 'Indonesia (semi-formal)',
+    targetLanguage: 'Indonesian',
+    languageCode: 'id',
+    tone: "Use natural, easy-to-understand, semi-formal Indonesian. Avoid slang like 'nguasain' or 'udah', and avoid overly formal language.",
+    examples: [
+      { source: 'We dominated the game', target: 'Kita benar-benar menguasai pertandingan.' },
+      { source: 'Board expects a top-half finish', target: 'Manajemen berharap kita bisa finis di papan atas.' },
+      { source: 'Transfer budget adjusted', target: 'Dana transfer sudah disesuaikan.' }
+    ],
+    ltfLanguageName: 'Bahasa Indonesia'
+  },
+  {
+    id: 'ms',
+    label: 'Melayu (semi-formal)',
+    targetLanguage: 'Malaysian Malay',
+    languageCode: 'ms',
+    tone: "Use natural, semi-formal Malaysian Malay as heard in Malaysian football coverage. Prefer Malaysian vocabulary over Indonesian ('perlawanan' not 'pertandingan', 'bajet' not 'anggaran').",
+    examples: [
+      { source: 'We dominated the game', target: 'Kita benar-benar menguasai perlawanan.' },
+      { source: 'Board expects a top-half finish', target: 'Lembaga pengarah mengharapkan kita menamatkan saingan di separuh atas liga.' },
+      { source: 'Transfer budget adjusted', target: 'Bajet perpindahan telah diselaraskan.' }
+    ],
+    ltfLanguageName: 'Bahasa Melayu'
+  },
+  {
+    id: 'jv',
+    label: 'Jawa (ngoko alus)',
+    targetLanguage: 'Javanese',
+    languageCode: 'jv',
+    tone: 'Use everyday Javanese in the ngoko alus register, understandable across Central and East Java. Keep football terms that Javanese speakers normally say in Indonesian or English.',
+    examples: [
+      { source: 'We dominated the game', target: 'Awake dhewe bener-bener nguwasani pertandhingan.' },
+      { source: 'Board expects a top-half finish', target: 'Manajemen ngarep-arep awake dhewe bisa rampung ing papan ndhuwur.' },
+      { source: 'Transfer budget adjusted', target: 'Dana transfer wis disesuaikan.' }
+    ],
+    ltfLanguageName: 'Basa Jawa'
+  }
+];
+
+export const DEFAULT_PROFILE_ID = 'id';
+
+export function getProfile(id: string = DEFAULT_PROFILE_ID): TranslationProfile | undefined {
+  return PROFILES.find(profile => profile.id === id);
+}
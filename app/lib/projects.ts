@@ -0,0 +1,152 @@
+import type { Baseline } from './baseline';
+import type { Budget } from './budget';
+import type { TextFormat } from './encoding';
+import { pendingIndexes } from './entries';
+import type { LTFEntry } from './entries';
+import type { GlossaryEntry } from './glossary';
+import type { LineEnding, LtfDocument } from './ltf';
+import type { UsageLedger } from './pricing';
+
+// Projects kept in IndexedDB so a reload or a closed tab does not lose any work.
+// Three stores, all keyed by project id: small summaries for the project list, the editable state
+// (autosaved often), and the parsed .ltf document (large, written only when a file is loaded).
+
+const DB_NAME = 'fm-translator';
+const DB_VERSION = 1;
+const SUMMARIES = 'summaries';
+const STATES = 'states';
+const DOCUMENTS = 'documents';
+
+/** Per-project settings; prices and the exchange rate stay global in localStorage */
+export interface ProjectSettings {
+  profileId: string;
+  glossary: GlossaryEntry[];
+  budget: Budget;
+  exportFormat: TextFormat | null;
+  exportLineEnding: LineEnding | null;
+}
+
+/** A Translate All that was running when the project was last saved */
+export interface InterruptedRun {
+  startedAt: number;
+  /** STR-n lines pending when it started */
+  total: number;
+}
+
+export interface ProjectState {
+  id: string;
+  fileName: string;
+  fileFormat: TextFormat;
+  createdAt: number;
+  entries: LTFEntry[];
+  archivedEntries: LTFEntry[];
+  baselines: Baseline[];
+  settings: ProjectSettings;
+  usage: UsageLedger;
+  interruptedRun: InterruptedRun | null;
+}
+
+export interface ProjectSummary {
+  id: string;
+  fileName: string;
+  createdAt: number;
+  updatedAt: number;
+  entryCount: number;
+  translatedCount: number;
+  interrupted: boolean;
+}
+
+export interface Project extends ProjectState {
+  document: LtfDocument;
+}
+
+export function createProjectId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const store of [SUMMARIES, STATES, DOCUMENTS]) {
+        if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Most recently saved first */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const summaries = await requestResult<ProjectSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<Project | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STATES, DOCUMENTS]);
+  const [state, document] = await Promise.all([
+    requestResult<ProjectState | undefined>(transaction.objectStore(STATES).get(id)),
+    requestResult<LtfDocument | undefined>(transaction.objectStore(DOCUMENTS).get(id))
+  ]);
+  return state && document ? { ...state, document } : null;
+}
+
+/** Save the editable state and return the refreshed summary */
+export async function saveProjectState(state: ProjectState): Promise<ProjectSummary> {
+  const summary: ProjectSummary = {
+    id: state.id,
+    fileName: state.fileName,
+    createdAt: state.createdAt,
+    updatedAt: Date.now(),
+    entryCount: state.entries.length,
+    translatedCount: state.entries.filter(entry => entry.english && pendingIndexes(entry).length === 0).length,
+    interrupted: state.interruptedRun !== null
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, STATES], 'readwrite');
+  transaction.objectStore(STATES).put(state, state.id);
+  transaction.objectStore(SUMMARIES).put(summary, state.id);
+  await transactionDone(transaction);
+  return summary;
+}
+
+export async function saveProjectDocument(id: string, document: LtfDocument): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS, 'readwrite');
+  transaction.objectStore(DOCUMENTS).put(document, id);
+  await transactionDone(transaction);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, STATES, DOCUMENTS], 'readwrite');
+  for (const store of [SUMMARIES, STATES, DOCUMENTS]) transaction.objectStore(store).delete(id);
+  await transactionDone(transaction);
+}
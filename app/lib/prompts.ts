@@ -0,0 +1,30 @@
+import type { GlossaryEntry } from './glossary';
+import type { TranslationProfile } from './profiles';
+
+// System prompts shared by every chat-completion based provider
+
+function glossaryLine(entry: GlossaryEntry): string {
+  const rule = entry.doNotTranslate
+    ? `'${entry.source}' → keep '${entry.source}' untranslated`
+    : `'${entry.source}' → '${entry.target}'`;
+  return entry.notes ? `${rule} (${entry.notes})` : rule;
+}
+
+function basePrompt(profile: TranslationProfile): string {
+  const examples = profile.examples
+    .map(({ source, target }) => `'${source}' → '${target}'`)
+    .join(', ');
+  const glossary = profile.glossary?.length
+    ? ` Mandatory glossary, always use these terms exactly: ${profile.glossary.map(glossaryLine).join('; ')}.`
+    : '';
+
+  return `You are a Football Manager translator. Translate English into ${profile.targetLanguage}. ${profile.tone} Examples: ${examples}. Keep placeholders like [%number#1] unchanged.${glossary}`;
+}
+
+export function batchSystemPrompt(profile: TranslationProfile): string {
+  return `${basePrompt(profile)} IMPORTANT: You will receive a JSON object whose keys are entry IDs and whose values have a "text" to translate and an optional "context" note. Use the context only to understand the text; never translate or include it. An optional "variant" such as "STR-2 of 3" means the entry has several forms of the same string (for example gendered forms); translate the text as that particular form. Return ONLY a JSON object of the form {"translations": {"<id>": "<translated text>"}} containing every ID you received exactly once and no other IDs.`;
+}
+
+export function singleSystemPrompt(profile: TranslationProfile): string {
+  return `${basePrompt(profile)} IMPORTANT: Return ONLY the translated text without quotes, explanations, or additional formatting.`;
+}
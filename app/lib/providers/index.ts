@@ -0,0 +1,38 @@
+import { createLibreTranslateProvider } from './libretranslate';
+import { createMockProvider } from './mock';
+import { createRetryingProvider } from '../retry';
+import { createLocalProvider, createOpenAIProvider } from './openai';
+import type { TranslationProvider } from './types';
+
+export type { AlternativesResult, TranslationItem, TranslationProvider } from './types';
+
+export const PROVIDER_NAMES = ['openai', 'local', 'libretranslate', 'mock'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+/**
+ * Build the provider selected by TRANSLATION_PROVIDER (defaults to "openai"), wrapped so that
+ * rate limits, timeouts and 5xx answers are retried up to TRANSLATION_MAX_RETRIES times (default 3).
+ * Called per request so env changes and missing keys surface as API errors, not build errors.
+ */
+export function getTranslationProvider(): TranslationProvider {
+  const maxRetriesSetting = Number(process.env.TRANSLATION_MAX_RETRIES);
+  const maxRetries = Number.isInteger(maxRetriesSetting) && maxRetriesSetting >= 0 ? maxRetriesSetting : 3;
+  return createRetryingProvider(createBaseProvider(), { maxRetries });
+}
+
+function createBaseProvider(): TranslationProvider {
+  const name = (process.env.TRANSLATION_PROVIDER || 'openai').trim().toLowerCase();
+
+  switch (name as ProviderName) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'local':
+      return createLocalProvider();
+    case 'libretranslate':
+      return createLibreTranslateProvider();
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown TRANSLATION_PROVIDER "${name}". Use one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
@@ -0,0 +1,55 @@
+import { TranslationError, codeForStatus, parseRetryAfter } from '../errors';
+import type { TranslationProvider } from './types';
+import { stripContext } from './utils';
+
+interface LibreTranslateResponse {
+  translatedText?: string | string[];
+  error?: string;
+}
+
+export function createLibreTranslateProvider(): TranslationProvider {
+  const baseURL = (process.env.LIBRETRANSLATE_URL || 'http://localhost:5000').replace(/\/+$/, '');
+  const apiKey = process.env.LIBRETRANSLATE_API_KEY;
+
+  const request = async (q: string | string[], target: string): Promise<string | string[]> => {
+    const response = await fetch(`${baseURL}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ q, source: 'en', target, format: 'text', api_key: apiKey }),
+      signal: AbortSignal.timeout(Number(process.env.TRANSLATION_TIMEOUT_MS) || 60000),
+    });
+
+    const data: LibreTranslateResponse = await response.json().catch(() => ({}));
+    if (!response.ok || data.translatedText === undefined) {
+      const message = `LibreTranslate error ${response.status}: ${data.error || response.statusText}`;
+      throw new TranslationError(codeForStatus(response.status, undefined, message), message, parseRetryAfter(response.headers));
+    }
+
+    return data.translatedText;
+  };
+
+  return {
+    name: 'libretranslate',
+
+    async translate(text, profile) {
+      const result = await request(stripContext(text), profile.languageCode);
+      return { text: Array.isArray(result) ? result[0] || '' : result };
+    },
+
+    async translateBatch(items, profile, onItem) {
+      // LibreTranslate accepts an array for q and answers with an array in the same order,
+      // so positions map back to IDs only when the lengths agree
+      const result = await request(items.map(item => item.text), profile.languageCode);
+      if (!Array.isArray(result) || result.length !== items.length) return { translations: {} };
+
+      const translations: Record<string, string> = {};
+      items.forEach((item, index) => {
+        translations[item.id] = result[index];
+        onItem?.(item.id, result[index]);
+      });
+      return { translations };
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import type { TokenUsage } from '../pricing';
+import { estimateTokens } from '../tokens';
+import type { TranslationProvider } from './types';
+import { stripContext } from './utils';
+
+// Rough stand-in so the usage ledger and budgets can be exercised offline
+function mockUsage(texts: string[]): TokenUsage {
+  const tokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+  return { model: 'mock', inputTokens: tokens, outputTokens: tokens, cachedTokens: 0 };
+}
+
+// Offline provider for tests and air-gapped machines: same input always gives the same output
+export function createMockProvider(): TranslationProvider {
+  const translate = (text: string, languageCode: string) => `(mock:${languageCode}) ${stripContext(text)}`;
+
+  return {
+    name: 'mock',
+
+    async translate(text, profile) {
+      return { text: translate(text, profile.languageCode), usage: mockUsage([text]) };
+    },
+
+    async translateBatch(items, profile, onItem) {
+      const translations: Record<string, string> = {};
+      for (const item of items) {
+        translations[item.id] = translate(item.text, profile.languageCode);
+        onItem?.(item.id, translations[item.id]);
+      }
+      return { translations, usage: mockUsage(items.map(item => item.text)) };
+    },
+
+    async translateAlternatives(items, count, profile) {
+      const alternatives: Record<string, string[]> = {};
+      for (const item of items) {
+        alternatives[item.id] = Array.from({ length: count }, (_, index) =>
+          `(mock:${profile.languageCode} #${index + 1}) ${stripContext(item.text)}`);
+      }
+      return { alternatives, usage: mockUsage(items.flatMap(item => Array<string>(count).fill(item.text))) };
+    }
+  };
+}
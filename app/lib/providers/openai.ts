@@ -0,0 +1,177 @@
+import OpenAI from 'openai';
+import { createBatchStreamParser, parseBatchResponse } from '../batch';
+import { TranslationError, classifyError } from '../errors';
+import type { TokenUsage } from '../pricing';
+import { batchSystemPrompt, singleSystemPrompt } from '../prompts';
+import { batchLimitsForModel, estimateTokens, modelLimits } from '../tokens';
+import type { ModelLimits } from '../tokens';
+import type { TranslationProfile } from '../profiles';
+import type { TranslationItem, TranslationProvider } from './types';
+
+interface ChatProviderOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  /** Overrides for models missing from the built-in limits table */
+  limits?: Partial<ModelLimits>;
+}
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+function createChatProvider({ name, model, apiKey, baseURL, limits }: ChatProviderOptions): TranslationProvider {
+  // Retries are handled by createRetryingProvider so they can honour our own backoff policy
+  const client = new OpenAI({
+    apiKey,
+    baseURL,
+    maxRetries: 0,
+    timeout: Number(process.env.TRANSLATION_TIMEOUT_MS) || 60000
+  });
+
+  // Priced by the configured model name rather than the dated snapshot the API echoes back
+  const toUsage = (usage: CompletionUsage | null | undefined): TokenUsage | undefined => usage ? {
+    model,
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0
+  } : undefined;
+
+  const resolvedLimits = modelLimits(model, limits);
+  const batchLimits = batchLimitsForModel(resolvedLimits);
+
+  const batchMessages = (items: TranslationItem[], profile: TranslationProfile) => {
+    const batchContent: Record<string, { text: string; context?: string; variant?: string }> = {};
+    for (const { id, text, context, variant } of items) {
+      batchContent[id] = { text, ...(context && { context }), ...(variant && { variant }) };
+    }
+    return [
+      { role: 'system' as const, content: batchSystemPrompt(profile) },
+      { role: 'user' as const, content: JSON.stringify(batchContent) }
+    ];
+  };
+
+  return {
+    name,
+    batchLimits,
+
+    async translate(text, profile) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: singleSystemPrompt(profile) },
+          { role: 'user', content: text }
+        ],
+        temperature: 0.3,
+        // Room for a translation well past the length of the source, within what the model allows
+        max_tokens: Math.min(resolvedLimits.maxOutputTokens, Math.max(1000, estimateTokens(text) * 3))
+      }).catch(error => {
+        throw classifyError(error);
+      });
+
+      if (completion.choices[0].finish_reason === 'content_filter') {
+        throw new TranslationError('content_filter', 'The provider filtered this text');
+      }
+      // A cut-off translation must not reach the file or the translation memory
+      if (completion.choices[0].finish_reason === 'length') {
+        throw new TranslationError('context_length', 'The translation was cut off at the output token limit');
+      }
+
+      return { text: completion.choices[0].message.content || '', usage: toUsage(completion.usage) };
+    },
+
+    async translateBatch(items, profile, onItem) {
+      const request = {
+        model,
+        messages: batchMessages(items, profile),
+        temperature: 0.3,
+        max_tokens: batchLimits.maxOutputTokens,
+        response_format: { type: 'json_object' as const }
+      };
+      const ids = items.map(item => item.id);
+
+      // A content-filtered batch is cut short rather than failed: whatever parsed is kept and
+      // translateItems re-splits the rest until the offending entry is isolated
+      try {
+        if (!onItem) {
+          const completion = await client.chat.completions.create(request);
+          return {
+            translations: parseBatchResponse(completion.choices[0].message.content, ids),
+            usage: toUsage(completion.usage),
+            truncated: completion.choices[0].finish_reason === 'length'
+          };
+        }
+
+        const parser = createBatchStreamParser(ids, onItem);
+        const stream = await client.chat.completions.create({
+          ...request,
+          stream: true,
+          stream_options: { include_usage: true }
+        });
+        let usage: TokenUsage | undefined;
+        let truncated = false;
+        for await (const chunk of stream) {
+          parser.push(chunk.choices[0]?.delta?.content || '');
+          if (chunk.choices[0]?.finish_reason === 'length') truncated = true;
+          // Usage arrives on a final chunk with no choices
+          if (chunk.usage) usage = toUsage(chunk.usage);
+        }
+
+        return { translations: parseBatchResponse(parser.text, ids), usage, truncated };
+      } catch (error) {
+        throw classifyError(error);
+      }
+    },
+
+    // The same batch sampled n times at a higher temperature; every choice is parsed as a batch answer.
+    // Servers that ignore n answer with one choice, which just means fewer candidates.
+    async translateAlternatives(items, count, profile) {
+      const ids = items.map(item => item.id);
+      const completion = await client.chat.completions.create({
+        model,
+        messages: batchMessages(items, profile),
+        temperature: 0.9,
+        n: count,
+        max_tokens: batchLimits.maxOutputTokens,
+        response_format: { type: 'json_object' as const }
+      }).catch(error => {
+        throw classifyError(error);
+      });
+
+      const alternatives: Record<string, string[]> = {};
+      for (const choice of completion.choices) {
+        for (const [id, translation] of Object.entries(parseBatchResponse(choice.message.content, ids))) {
+          const candidates = alternatives[id] ??= [];
+          if (!candidates.includes(translation)) candidates.push(translation);
+        }
+      }
+      return { alternatives, usage: toUsage(completion.usage) };
+    }
+  };
+}
+
+export function createOpenAIProvider(): TranslationProvider {
+  return createChatProvider({
+    name: 'openai',
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    apiKey: process.env.OPENAI_API_KEY
+  });
+}
+
+// Any server speaking the OpenAI chat completions API: Ollama, llama.cpp server, LM Studio, vLLM...
+export function createLocalProvider(): TranslationProvider {
+  return createChatProvider({
+    name: 'local',
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    limits: {
+      contextTokens: Number(process.env.LOCAL_LLM_CONTEXT_TOKENS) || undefined,
+      maxOutputTokens: Number(process.env.LOCAL_LLM_MAX_OUTPUT_TOKENS) || undefined
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import type { TokenUsage } from '../pricing';
+import type { TranslationProfile } from '../profiles';
+import type { BatchLimits } from '../tokens';
+
+export interface TranslationItem {
+  /** Entry ID chosen by the client; translations are only ever returned under this ID */
+  id: string;
+  text: string;
+  /** Translator note from the .ltf comment, used as a hint and never translated */
+  context?: string;
+  /** Which STR-n form is wanted, e.g. "STR-2 of 3", for entries with gendered or variant forms */
+  variant?: string;
+}
+
+export interface TranslationResult {
+  text: string;
+  /** Tokens billed for the call; absent for providers that do not bill per token */
+  usage?: TokenUsage;
+}
+
+export interface BatchTranslation {
+  translations: Record<string, string>;
+  usage?: TokenUsage;
+  /** The answer hit the output token limit, so whatever is missing was cut off rather than skipped */
+  truncated?: boolean;
+}
+
+export interface AlternativesResult {
+  /** Distinct candidate translations per item ID, possibly fewer than asked for */
+  alternatives: Record<string, string[]>;
+  usage?: TokenUsage;
+}
+
+export interface TranslationProvider {
+  /** Short identifier reported back to the client, e.g. "openai" or "mock" */
+  readonly name: string;
+  /** How much translateItems may pack into one translateBatch call; DEFAULT_BATCH_LIMITS when absent */
+  readonly batchLimits?: BatchLimits;
+  translate(text: string, profile: TranslationProfile): Promise<TranslationResult>;
+  /**
+   * Translate a batch keyed by item ID. The result may be partial: IDs the provider
+   * could not answer for with certainty are left out, and the caller retries them.
+   * Providers that can stream call onItem for each translation as soon as it is parsed.
+   */
+  translateBatch(
+    items: TranslationItem[],
+    profile: TranslationProfile,
+    onItem?: (id: string, translation: string) => void
+  ): Promise<BatchTranslation>;
+  /**
+   * Sample up to count different translations per item, for a reviewer to choose from.
+   * Providers that always give the same answer leave it out; see translateAlternatives.
+   */
+  translateAlternatives?(
+    items: TranslationItem[],
+    count: number,
+    profile: TranslationProfile
+  ): Promise<AlternativesResult>;
+}
@@ -0,0 +1,5 @@
+// The client appends the entry comment as "[CONTEXT: ...]". Chat models read it as a hint,
+// but providers that translate text literally must drop it before sending.
+export function stripContext(text: string): string {
+  return text.replace(/\s*\[CONTEXT:[^\]]*\]\s*$/, '');
+}
@@ -0,0 +1,107 @@
+// Check if an AI response is a rejection rather than a translation.
+// Used by the page to fall back to English and by the API to keep rejections out of translation memory.
+export function isRejectionResponse(text: string): boolean {
+  const rejectionKeywords = [
+    // Indonesian rejection phrases
+    'tidak dapat menerjemahkan',
+    'tidak bisa menerjemahkan', 
+    'maaf',
+    'tidak lengkap',
+    'tidak jelas',
+    'berikan konteks',
+    'kalimat yang lebih lengkap',
+    'silakan berikan',
+    'tidak memahami',
+    'kurang jelas',
+    'tidak dapat membantu',
+    'saya tidak dapat membantu',
+    'dengan permintaan tersebut',
+    'permintaan tersebut',
+    // English rejection phrases - comprehensive coverage
+    'i\'m sorry',
+    'i am sorry',
+    'sorry',
+    'apologize',
+    'i apologize',
+    'i can\'t',
+    'i cannot',
+    'can\'t',
+    'cannot',
+    'unable',
+    'not able',
+    'i\'m unable',
+    'i am unable',
+    'i don\'t',
+    'i do not',
+    'don\'t',
+    'do not',
+    'won\'t',
+    'will not',
+    'i won\'t',
+    'i will not',
+    'assist with',
+    'help with',
+    'only assist',
+    'can only',
+    'only help',
+    'only translate',
+    'only work with',
+    'from english to',
+    'english to indonesian',
+    'provide it',
+    'please provide',
+    'if you have',
+    'happy to help',
+    'glad to help',
+    'be happy',
+    'be glad',
+    'i\'ll be',
+    'i will be',
+    'need more',
+    'more context',
+    'more information',
+    'additional context',
+    'unclear',
+    'not clear',
+    'incomplete',
+    'not complete',
+    'insufficient',
+    'not enough',
+    'understand what',
+    'what you\'re',
+    'you\'re asking',
+    'asking for',
+    'request',
+    'your request',
+    'this request',
+    'that request'
+  ];
+  
+  const lowerText = text.toLowerCase();
+  
+  // Check for rejection keywords
+  const hasRejectionKeyword = rejectionKeywords.some(keyword => lowerText.includes(keyword));
+  
+  // Additional pattern checks for common rejection structures
+  const rejectionPatterns = [
+    /i'm sorry.*but/i,
+    /sorry.*but/i,
+    /i can't.*because/i,
+    /i cannot.*because/i,
+    /unable to.*because/i,
+    /i don't.*understand/i,
+    /i do not.*understand/i,
+    /please.*provide/i,
+    /if you.*have/i,
+    /need.*more/i,
+    /not.*clear/i,
+    /not.*enough/i,
+    /only.*assist/i,
+    /only.*help/i,
+    /only.*translate/i
+  ];
+  
+  const hasRejectionPattern = rejectionPatterns.some(pattern => pattern.test(text));
+  
+  return hasRejectionKeyword || hasRejectionPattern;
+}
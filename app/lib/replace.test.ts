@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { LTFEntry } from './entries';
+import { applyReplacements, findReplacements, replaceProtected } from './replace';
+import type { ReplaceOptions } from './replace';
+import { compilePattern } from './search';
+
+const options = (find: string, replace: string, overrides: Partial<ReplaceOptions> = {}): ReplaceOptions =>
+  ({ find, replace, mode: 'plain', caseSensitive: false, ...overrides });
+
+/** replaceProtected with the pattern findReplacements would build */
+function replace(text: string, replaceOptions: ReplaceOptions): string {
+  const pattern = compilePattern(replaceOptions.find, replaceOptions.mode, replaceOptions.caseSensitive, 'g');
+  return replaceProtected(text, pattern, replaceOptions);
+}
+
+describe('replaceProtected', () => {
+  it('replaces every match outside placeholders', () => {
+    expect(replace('tim menang, Tim kalah', options('tim', 'klub'))).toBe('klub menang, klub kalah');
+  });
+
+  it('never touches the inside of a placeholder', () => {
+    expect(replace('{player} dan [team] dari team', options('team', 'tim'))).toBe('{player} dan [team] dari tim');
+    expect(replace('{player}', options('play', 'main'))).toBe('{player}');
+  });
+
+  it('does not let a match run across a placeholder', () => {
+    expect(replace('gol {x} gol', options('gol {x} gol', 'x'))).toBe('gol {x} gol');
+    expect(replace('a{x}b', options('a.*b', '-', { mode: 'regex' }))).toBe('a{x}b');
+  });
+
+  it('inserts $1 and $<name> groups in regex mode', () => {
+    expect(replace('Pelatih Budi, Pelatih Andi', options('Pelatih (\\w+)', '$1 (pelatih)', { mode: 'regex' })))
+      .toBe('Budi (pelatih), Andi (pelatih)');
+    expect(replace('2-1', options('(?<home>\\d)-(?<away>\\d)', '$<away>-$<home>', { mode: 'regex' }))).toBe('1-2');
+  });
+
+  it('inserts the text literally outside regex mode', () => {
+    expect(replace('Gol', options('Gol', '$1 & $&'))).toBe('$1 & $&');
+  });
+
+  it('respects case sensitivity and whole words', () => {
+    expect(replace('Gol gol', options('gol', 'x', { caseSensitive: true }))).toBe('Gol x');
+    expect(replace('gol golnya', options('gol', 'x', { mode: 'word' }))).toBe('x golnya');
+  });
+});
+
+describe('findReplacements', () => {
+  const entries: LTFEntry[] = [
+    { key: 'A', english: 'Team', translation: 'Tim', variants: { 2: 'Tim lain' } },
+    { key: 'B', english: '{team} won', translation: '{team} menang' },
+    { key: 'C', english: 'Coach', translation: '' },
+    { key: 'D', english: 'Team talk', translation: 'Bicara tim' }
+  ];
+
+  it('lists every STR-n line the replace changes', () => {
+    expect(findReplacements(entries, options('tim', 'skuad'))).toEqual([
+      { index: 0, stringIndex: 1, before: 'Tim', after: 'skuad' },
+      { index: 0, stringIndex: 2, before: 'Tim lain', after: 'skuad lain' },
+      { index: 3, stringIndex: 1, before: 'Bicara tim', after: 'Bicara skuad' }
+    ]);
+  });
+
+  it('searches only the given entries', () => {
+    expect(findReplacements(entries, options('tim', 'skuad'), [3]).map(match => match.index)).toEqual([3]);
+  });
+
+  it('finds nothing for an empty search and throws for an invalid regex', () => {
+    expect(findReplacements(entries, options('', 'x'))).toEqual([]);
+    expect(() => findReplacements(entries, options('(', 'x', { mode: 'regex' }))).toThrow(SyntaxError);
+  });
+
+  it('applies the matches as a human review and skips lines changed since', () => {
+    const matches = findReplacements(entries, options('tim', 'skuad'));
+    const edited = entries.map((entry, index) => index === 3 ? { ...entry, translation: 'Bicara tim!' } : entry);
+    const result = applyReplacements(edited, matches);
+
+    expect(result[0]).toMatchObject({ translation: 'skuad', variants: { 2: 'skuad lain' }, status: 'reviewed', origin: 'human' });
+    expect(result[3]).toBe(edited[3]);
+  });
+});
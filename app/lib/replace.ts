@@ -0,0 +1,77 @@
+import { PLACEHOLDER_PATTERN, getEntryString, stringIndexes, withEntryString, withStatus } from './entries';
+import type { LTFEntry } from './entries';
+import { compilePattern } from './search';
+import type { SearchMode } from './search';
+
+// Bulk find-and-replace over the translations. Placeholders ([...] and {...}) are never touched:
+// the text between them is searched piece by piece, so a match cannot start or end inside one.
+
+export interface ReplaceOptions {
+  find: string;
+  /** $1, $<name> and the like work in regex mode; elsewhere the text is inserted as is */
+  replace: string;
+  mode: SearchMode;
+  caseSensitive: boolean;
+}
+
+export interface ReplaceMatch {
+  /** Index into the entries */
+  index: number;
+  /** n of the STR-n line */
+  stringIndex: number;
+  before: string;
+  after: string;
+}
+
+/** Replace in the text outside placeholders only */
+export function replaceProtected(text: string, pattern: RegExp, options: ReplaceOptions): string {
+  const replaceText = (part: string) => options.mode === 'regex'
+    ? part.replace(pattern, options.replace)
+    : part.replace(pattern, () => options.replace);
+
+  let result = '';
+  let offset = 0;
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const start = match.index ?? 0;
+    result += replaceText(text.slice(offset, start)) + match[0];
+    offset = start + match[0].length;
+  }
+  return result + replaceText(text.slice(offset));
+}
+
+/** Every STR-n line the replace would change; throws a SyntaxError for an invalid regex */
+export function findReplacements(entries: LTFEntry[], options: ReplaceOptions, indexes?: number[]): ReplaceMatch[] {
+  if (!options.find) return [];
+  const pattern = compilePattern(options.find, options.mode, options.caseSensitive, 'g');
+
+  const matches: ReplaceMatch[] = [];
+  for (const index of indexes ?? entries.keys()) {
+    const entry = entries[index];
+    for (const stringIndex of stringIndexes(entry)) {
+      const before = getEntryString(entry, stringIndex);
+      if (!before) continue;
+      const after = replaceProtected(before, pattern, options);
+      if (after !== before) matches.push({ index, stringIndex, before, after });
+    }
+  }
+  return matches;
+}
+
+/** A replaced line counts as a human edit. Matches whose line changed since the preview are skipped */
+export function applyReplacements(entries: LTFEntry[], matches: ReplaceMatch[]): LTFEntry[] {
+  const byEntry = new Map<number, ReplaceMatch[]>();
+  for (const match of matches) {
+    const entry = entries[match.index];
+    if (!entry || getEntryString(entry, match.stringIndex) !== match.before) continue;
+    byEntry.set(match.index, [...(byEntry.get(match.index) ?? []), match]);
+  }
+
+  return entries.map((entry, index) => {
+    const entryMatches = byEntry.get(index);
+    if (!entryMatches) return entry;
+
+    let next = entry;
+    for (const { stringIndex, after } of entryMatches) next = withEntryString(next, stringIndex, after);
+    return withStatus(next, 'reviewed', 'human');
+  });
+}
@@ -0,0 +1,49 @@
+import { classifyError } from './errors';
+import type { TranslationProvider } from './providers/types';
+
+/** Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)) */
+export function backoffDelay(attempt: number, baseDelayMs = 1000, maxDelayMs = 30000): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Run fn, retrying retryable TranslationErrors. A Retry-After from the provider wins over
+ * the computed backoff. Anything else, or the last failure, is rethrown as a TranslationError.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxRetries = 3, baseDelayMs = 1000, maxDelayMs = 30000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (rawError) {
+      const error = classifyError(rawError);
+      if (!error.retryable || attempt >= maxRetries) throw error;
+      // A provider asking for a longer pause than we are willing to hold a request for is the client's call
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > maxDelayMs) throw error;
+
+      const delay = error.retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      console.warn(`Provider call failed (${error.code}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/** Wrap every call of a provider in withRetry */
+export function createRetryingProvider(provider: TranslationProvider, options?: RetryOptions): TranslationProvider {
+  const translateAlternatives = provider.translateAlternatives?.bind(provider);
+  return {
+    name: provider.name,
+    batchLimits: provider.batchLimits,
+    translate: (text, profile) => withRetry(() => provider.translate(text, profile), options),
+    translateBatch: (items, profile, onItem) => withRetry(() => provider.translateBatch(items, profile, onItem), options),
+    translateAlternatives: translateAlternatives && ((items, count, profile) =>
+      withRetry(() => translateAlternatives(items, count, profile), options))
+  };
+}
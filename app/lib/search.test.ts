@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { LTFEntry } from './entries';
+import { EMPTY_QUERY, compilePattern, compileQuery } from './search';
+import type { EntryQuery } from './search';
+
+const matches = (text: string, ...args: Parameters<typeof compilePattern>) => compilePattern(...args).test(text);
+
+describe('compilePattern', () => {
+  it('finds plain text anywhere, special characters included', () => {
+    expect(matches('Liga 1 (2024)', '(2024)', 'plain', false)).toBe(true);
+    expect(matches('Tim Utama', 'tim', 'plain', false)).toBe(true);
+    expect(matches('Tim Utama', 'tim', 'plain', true)).toBe(false);
+    expect(matches('ab', '.', 'plain', false)).toBe(false);
+  });
+
+  it('finds whole words only, letters outside ASCII included', () => {
+    expect(matches('gol bunuh diri', 'gol', 'word', false)).toBe(true);
+    expect(matches('golnya', 'gol', 'word', false)).toBe(false);
+    expect(matches('gol_2', 'gol', 'word', false)).toBe(false);
+    expect(matches('golé', 'gol', 'word', false)).toBe(false);
+    expect(matches('(gol)', 'gol', 'word', false)).toBe(true);
+  });
+
+  it('compiles a regex as typed, without the u flag', () => {
+    expect(matches('skor 2-1', '\\d\\-\\d', 'regex', false)).toBe(true);
+    expect(matches('[Menu]', '^\\[menu\\]$', 'regex', false)).toBe(true);
+    expect(compilePattern('a', 'regex', true).flags).toBe('');
+    expect(compilePattern('a', 'regex', false, 'g').flags).toBe('gi');
+    expect(() => compilePattern('(', 'regex', false)).toThrow(SyntaxError);
+  });
+});
+
+describe('compileQuery', () => {
+  const entry: LTFEntry = { key: 'MATCH_TITLE', english: 'Match', translation: 'Pertandingan', comment: 'screen title' };
+  const query = (overrides: Partial<EntryQuery>) => compileQuery({ ...EMPTY_QUERY, ...overrides });
+
+  it('searches the key, English, translation and comment', () => {
+    for (const text of ['MATCH_', 'match', 'tanding', 'screen']) {
+      expect(query({ text }).matches(entry)).toBe(true);
+    }
+    expect(query({ text: 'Gol' }).matches(entry)).toBe(false);
+  });
+
+  it('reports an invalid regex and ignores the text part', () => {
+    const compiled = query({ text: '(', mode: 'regex' });
+    expect(compiled.error).toBeTruthy();
+    expect(compiled.matches(entry)).toBe(true);
+  });
+});
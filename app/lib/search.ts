@@ -0,0 +1,98 @@
+import { PLACEHOLDER_PATTERN, entryStatus, getEntryString, stringIndexes } from './entries';
+import type { EntryStatus, LTFEntry } from './entries';
+
+// Search and facet filters for the entries table
+
+export type SearchMode = 'plain' | 'word' | 'regex';
+
+export interface EntryQuery {
+  text: string;
+  mode: SearchMode;
+  caseSensitive: boolean;
+  status: EntryStatus | null;
+  /** null means either */
+  hasComment: boolean | null;
+  hasPlaceholders: boolean | null;
+  keyPrefix: string | null;
+}
+
+export const EMPTY_QUERY: EntryQuery = {
+  text: '',
+  mode: 'plain',
+  caseSensitive: false,
+  status: null,
+  hasComment: null,
+  hasPlaceholders: null,
+  keyPrefix: null
+};
+
+export interface CompiledQuery {
+  matches: (entry: LTFEntry) => boolean;
+  /** Set when the regex does not compile; the text part of the query is then ignored */
+  error: string | null;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Throws a SyntaxError for an invalid regex. A regex is compiled as typed, without the u flag,
+ * so loose escapes like \- keep working; only word mode needs u for its \p{L} lookarounds.
+ */
+export function compilePattern(text: string, mode: SearchMode, caseSensitive: boolean, flags = ''): RegExp {
+  const source = mode === 'regex' ? text
+    // Letters outside ASCII count as word characters too, so \b is not enough
+    : mode === 'word' ? `(?<![\\p{L}\\p{N}_])${escapeRegExp(text)}(?![\\p{L}\\p{N}_])`
+    : escapeRegExp(text);
+  return new RegExp(source, `${mode === 'word' ? 'u' : ''}${caseSensitive ? '' : 'i'}${flags}`);
+}
+
+/** Key up to its first separator, e.g. "MATCH" for "MATCH_REPORT_TITLE" */
+export function keyPrefix(key: string): string {
+  return key.split(/[_.\-:]/)[0];
+}
+
+/** Prefixes that group at least two entries, most common first */
+export function keyPrefixCounts(entries: LTFEntry[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const prefix = keyPrefix(entry.key);
+    if (prefix) counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+  }
+  return Array.from(counts).filter(([, count]) => count > 1).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export function hasPlaceholders(entry: LTFEntry): boolean {
+  return entry.english.search(PLACEHOLDER_PATTERN) !== -1;
+}
+
+export function isQueryActive(query: EntryQuery): boolean {
+  return query.text !== '' || query.status !== null || query.hasComment !== null ||
+    query.hasPlaceholders !== null || query.keyPrefix !== null;
+}
+
+/** Text is searched in the key, English, every STR-n line and the comment */
+export function compileQuery(query: EntryQuery): CompiledQuery {
+  let pattern: RegExp | null = null;
+  let error: string | null = null;
+  if (query.text) {
+    try {
+      pattern = compilePattern(query.text, query.mode, query.caseSensitive);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const matches = (entry: LTFEntry) => {
+    // Entries without English have no status, so a status facet leaves them out
+    if (query.status && (!entry.english || entryStatus(entry) !== query.status)) return false;
+    if (query.hasComment !== null && Boolean(entry.comment) !== query.hasComment) return false;
+    if (query.hasPlaceholders !== null && hasPlaceholders(entry) !== query.hasPlaceholders) return false;
+    if (query.keyPrefix !== null && keyPrefix(entry.key) !== query.keyPrefix) return false;
+    if (!pattern) return true;
+
+    const texts = [entry.key, entry.english, ...stringIndexes(entry).map(index => getEntryString(entry, index)), entry.comment ?? ''];
+    return texts.some(text => pattern.test(text));
+  };
+
+  return { matches, error };
+}
@@ -0,0 +1,21 @@
+// Small localStorage helpers for user settings that should survive a reload
+
+const PREFIX = 'fm-translator:';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save setting ${key}:`, error);
+  }
+}
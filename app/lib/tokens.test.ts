@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { estimateItemTokens, packByTokens } from './tokens';
+import type { TokenEstimate } from './tokens';
+
+// Items are their own estimate, so each test says exactly what it packs
+const measure = (item: TokenEstimate) => item;
+const item = (input: number, output = input): TokenEstimate => ({ input, output });
+const sizes = (batches: TokenEstimate[][]) => batches.map(batch => batch.map(entry => entry.input));
+
+describe('packByTokens', () => {
+  it('starts a new batch at the item limit', () => {
+    const items = Array.from({ length: 5 }, () => item(1));
+    expect(sizes(packByTokens(items, measure, { maxItems: 2, maxInputTokens: 100, maxOutputTokens: 100 }))).toEqual([[1, 1], [1, 1], [1]]);
+  });
+
+  it('fills a batch up to the input limit, inclusive', () => {
+    const items = [item(4, 0), item(6, 0), item(1, 0), item(9, 0)];
+    expect(sizes(packByTokens(items, measure, { maxItems: 10, maxInputTokens: 10, maxOutputTokens: 100 }))).toEqual([[4, 6], [1, 9]]);
+  });
+
+  it('starts a new batch when the output would not fit', () => {
+    const items = [item(1, 6), item(2, 6), item(3, 6)];
+    expect(sizes(packByTokens(items, measure, { maxItems: 10, maxInputTokens: 100, maxOutputTokens: 12 }))).toEqual([[1, 2], [3]]);
+  });
+
+  it('gives an oversized item a batch of its own instead of dropping it', () => {
+    const items = [item(1), item(50), item(1)];
+    expect(sizes(packByTokens(items, measure, { maxItems: 10, maxInputTokens: 10, maxOutputTokens: 10 }))).toEqual([[1], [50], [1]]);
+  });
+
+  it('keeps the order of the items', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7].map(size => item(size));
+    const batches = packByTokens(items, measure, { maxItems: 3, maxInputTokens: 9, maxOutputTokens: 100 });
+    expect(batches.flat()).toEqual(items);
+    expect(packByTokens([], measure, { maxItems: 3, maxInputTokens: 9, maxOutputTokens: 100 })).toEqual([]);
+  });
+});
+
+describe('estimateItemTokens', () => {
+  it('counts the context as input and expects a longer translation', () => {
+    const plain = estimateItemTokens('a'.repeat(40));
+    const withContext = estimateItemTokens('a'.repeat(40), 'b'.repeat(20));
+    expect(withContext.input - plain.input).toBe(5);
+    expect(withContext.output).toBe(plain.output);
+    expect(plain.output).toBeGreaterThan(plain.input);
+  });
+});
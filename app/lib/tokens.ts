@@ -0,0 +1,121 @@
+// Token estimates used to pack batches before anything is sent. They only need to be
+// close enough to keep a batch inside the model limits; billing always uses the usage
+// the provider reports.
+
+export interface TokenEstimate {
+  input: number;
+  output: number;
+}
+
+export interface ModelLimits {
+  contextTokens: number;
+  maxOutputTokens: number;
+}
+
+export interface BatchLimits {
+  maxItems: number;
+  /** Estimated input tokens per batch, system prompt excluded */
+  maxInputTokens: number;
+  /** Estimated output tokens per batch; also sent as max_tokens */
+  maxOutputTokens: number;
+}
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gpt-4o-mini': { contextTokens: 128000, maxOutputTokens: 16384 },
+  'gpt-4o': { contextTokens: 128000, maxOutputTokens: 16384 },
+  'gpt-4.1-mini': { contextTokens: 1047576, maxOutputTokens: 32768 },
+  'gpt-4.1-nano': { contextTokens: 1047576, maxOutputTokens: 32768 }
+};
+
+// Conservative default for unknown and local models, many of which run with an 8k context
+const FALLBACK_LIMITS: ModelLimits = { contextTokens: 8192, maxOutputTokens: 2048 };
+
+// Large batches answer slowly and lose more work when they fail, so a batch stays well below
+// the model's output limit even when the model allows more
+const BATCH_OUTPUT_TARGET = 4000;
+const SYSTEM_PROMPT_TOKENS = 400;
+
+// Translations into Indonesian and Malay run longer than the English source
+const OUTPUT_RATIO = 1.5;
+// JSON keys, quotes and separators around each item
+const ITEM_OVERHEAD_TOKENS = 8;
+
+export const DEFAULT_BATCH_LIMITS: BatchLimits = {
+  maxItems: 100,
+  maxInputTokens: 8000,
+  maxOutputTokens: BATCH_OUTPUT_TARGET
+};
+
+/** About four characters per token for English; good enough for packing */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateItemTokens(text: string, context?: string): TokenEstimate {
+  const textTokens = estimateTokens(text);
+  return {
+    input: textTokens + (context ? estimateTokens(context) : 0) + ITEM_OVERHEAD_TOKENS,
+    output: Math.ceil(textTokens * OUTPUT_RATIO) + ITEM_OVERHEAD_TOKENS
+  };
+}
+
+/**
+ * Tokens a whole request is expected to use, system prompt included, e.g. to check it against a
+ * cap before sending it. outputsPerItem is the number of answers asked for per item.
+ */
+export function estimateRequestTokens(items: Array<{ text: string, context?: string }>, outputsPerItem = 1): number {
+  return items.reduce((sum, item) => {
+    const estimate = estimateItemTokens(item.text, item.context);
+    return sum + estimate.input + estimate.output * outputsPerItem;
+  }, SYSTEM_PROMPT_TOKENS);
+}
+
+export function modelLimits(model: string, overrides: Partial<ModelLimits> = {}): ModelLimits {
+  const known = MODEL_LIMITS[model] ?? FALLBACK_LIMITS;
+  return {
+    contextTokens: overrides.contextTokens ?? known.contextTokens,
+    maxOutputTokens: overrides.maxOutputTokens ?? known.maxOutputTokens
+  };
+}
+
+/** Batch limits for a chat model: the output target, and whatever context is left for input */
+export function batchLimitsForModel(limits: ModelLimits): BatchLimits {
+  const maxOutputTokens = Math.min(limits.maxOutputTokens, BATCH_OUTPUT_TARGET);
+  return {
+    maxItems: DEFAULT_BATCH_LIMITS.maxItems,
+    maxInputTokens: Math.max(1, limits.contextTokens - maxOutputTokens - SYSTEM_PROMPT_TOKENS),
+    maxOutputTokens
+  };
+}
+
+/**
+ * Split items into consecutive batches that stay within the limits. An item that is too
+ * large on its own still gets a batch of its own, so nothing is ever dropped.
+ */
+export function packByTokens<T>(items: T[], measure: (item: T) => TokenEstimate, limits: BatchLimits): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let input = 0;
+  let output = 0;
+
+  for (const item of items) {
+    const estimate = measure(item);
+    const fits = current.length < limits.maxItems
+      && input + estimate.input <= limits.maxInputTokens
+      && output + estimate.output <= limits.maxOutputTokens;
+
+    if (!fits && current.length > 0) {
+      batches.push(current);
+      current = [];
+      input = 0;
+      output = 0;
+    }
+
+    current.push(item);
+    input += estimate.input;
+    output += estimate.output;
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { entryStatus } from './entries';
+import type { LTFEntry } from './entries';
+import { createLtfParser } from './ltf';
+import { upgradeEntries } from './upgrade';
+
+const CURRENT: LTFEntry[] = [
+  { key: 'SAME', english: 'Goal', translation: 'Gol', status: 'approved', origin: 'human' },
+  { key: 'CHANGED', english: 'Old coach', translation: 'Pelatih lama', status: 'approved', origin: 'human' },
+  { key: 'ORIGINAL', english: 'Old club', translation: 'Klub lama' },
+  { key: 'COPY', english: 'Old kit', translation: 'Old kit', status: 'fallback', origin: 'fallback' },
+  { key: 'EMPTY', english: 'Bench', translation: '' },
+  { key: 'GONE', english: 'Removed', translation: 'Dihapus', status: 'reviewed', origin: 'human' }
+];
+
+const NEXT = [
+  'SAME: Goal',
+  'CHANGED: New coach',
+  'ORIGINAL: New club',
+  'COPY: New kit',
+  'EMPTY: Bench',
+  'ADDED: Stadium',
+  ''
+].join('\n');
+
+function parse(content: string) {
+  const parser = createLtfParser();
+  parser.push(content);
+  return parser.end();
+}
+
+describe('upgrading to a newer file', () => {
+  const { entries, archived, report } = upgradeEntries(CURRENT, parse(NEXT));
+
+  it('counts every kind of entry', () => {
+    expect(report).toEqual({ carried: 1, stale: 3, untranslated: 1, added: 1, archived: 1 });
+  });
+
+  it('carries a translation with unchanged English as it was', () => {
+    expect(entries[0]).toMatchObject({ translation: 'Gol', status: 'approved', origin: 'human' });
+    expect(entries[0].stale).toBeUndefined();
+  });
+
+  it('marks a translation of changed English stale and no longer reviewed', () => {
+    expect(entries[1]).toMatchObject({ english: 'New coach', translation: 'Pelatih lama', stale: { previousEnglish: 'Old coach' } });
+    expect(entries.slice(1, 4).map(entryStatus)).toEqual(['machine', 'machine', 'fallback']);
+    expect(entries[1].origin).toBe('human');
+  });
+
+  it('keeps the oldest English of an entry that was still stale', () => {
+    const stale: LTFEntry = { ...CURRENT[1], english: 'Older coach', status: 'machine', stale: { previousEnglish: 'Oldest coach' } };
+    const once = upgradeEntries([stale], parse('CHANGED: Older coach\n')).entries[0];
+    const twice = upgradeEntries([stale], parse('CHANGED: New coach\n')).entries[0];
+    expect(once.stale).toEqual({ previousEnglish: 'Oldest coach' });
+    expect(twice.stale).toEqual({ previousEnglish: 'Oldest coach' });
+  });
+
+  it('adds new keys untranslated and archives the keys that are gone', () => {
+    expect(entries[5]).toMatchObject({ key: 'ADDED', english: 'Stadium', translation: '' });
+    expect(entryStatus(entries[5])).toBe('untranslated');
+    expect(archived).toEqual([CURRENT[5]]);
+  });
+
+  it('matches repeated keys in order', () => {
+    const repeated: LTFEntry[] = [
+      { key: 'DUP', english: 'First', translation: 'Pertama' },
+      { key: 'DUP', english: 'Second', translation: 'Kedua' }
+    ];
+    const result = upgradeEntries(repeated, parse('DUP: First\nDUP: Second\n'));
+    expect(result.entries.map(entry => entry.translation)).toEqual(['Pertama', 'Kedua']);
+    expect(result.report.carried).toBe(2);
+  });
+});
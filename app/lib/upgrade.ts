@@ -0,0 +1,74 @@
+import { entriesFromLtf, getEntryString, stringIndexes, withEntryString, withStatus } from './entries';
+import type { LTFEntry } from './entries';
+import type { LtfDocument } from './ltf';
+
+// Patch upgrade: carry the translations of a project into the .ltf of a newer FM version.
+// Entries are matched by key; the new file decides which entries and STR-n lines exist.
+
+export interface UpgradeReport {
+  /** Translated entries whose English is unchanged */
+  carried: number;
+  /** Translated entries whose English changed; translation kept, marked stale and no longer counted as reviewed */
+  stale: number;
+  /** Keys in both versions with nothing translated yet */
+  untranslated: number;
+  /** Keys only in the new file */
+  added: number;
+  /** Keys only in the old project, moved to the archive */
+  archived: number;
+}
+
+export interface UpgradeResult {
+  entries: LTFEntry[];
+  /** Entries of the old project whose key is gone from the new file */
+  archived: LTFEntry[];
+  report: UpgradeReport;
+}
+
+const hasTranslation = (entry: LTFEntry) => stringIndexes(entry).some(index => getEntryString(entry, index).trim());
+
+export function upgradeEntries(current: LTFEntry[], next: LtfDocument): UpgradeResult {
+  // Keys can repeat in a file; repeated keys are matched in order of appearance
+  const byKey = new Map<string, LTFEntry[]>();
+  for (const entry of current) {
+    const sameKey = byKey.get(entry.key);
+    if (sameKey) sameKey.push(entry);
+    else byKey.set(entry.key, [entry]);
+  }
+
+  const report: UpgradeReport = { carried: 0, stale: 0, untranslated: 0, added: 0, archived: 0 };
+
+  const entries = entriesFromLtf(next).map(entry => {
+    const previous = byKey.get(entry.key)?.shift();
+    if (!previous) {
+      report.added++;
+      return entry;
+    }
+    if (!hasTranslation(previous)) {
+      report.untranslated++;
+      return entry;
+    }
+
+    let upgraded: LTFEntry = { ...entry, status: previous.status, origin: previous.origin };
+    for (const index of stringIndexes(entry)) {
+      const text = getEntryString(previous, index);
+      if (text.trim()) upgraded = withEntryString(upgraded, index, text);
+    }
+
+    if (previous.english === entry.english) {
+      report.carried++;
+      // An entry that was still stale before the upgrade stays stale against its older English
+      return previous.stale ? { ...upgraded, stale: previous.stale } : upgraded;
+    }
+
+    report.stale++;
+    // A review or approval was given to the old English, so it does not carry over
+    const status = previous.status === 'fallback' ? 'fallback' : 'machine';
+    return { ...withStatus(upgraded, status), stale: { previousEnglish: previous.stale?.previousEnglish ?? previous.english } };
+  });
+
+  const archived = Array.from(byKey.values()).flat();
+  report.archived = archived.length;
+
+  return { entries, archived, report };
+}
@@ -1,12 +1,95 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-
-interface LTFEntry {
-  key: string;
-  english: string;
-  indonesian: string;
-  comment?: string;
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo, useDeferredValue } from 'react';
+import { DEFAULT_PROFILE_ID, PROFILES, getProfile } from './lib/profiles';
+import { isRejectionResponse } from './lib/rejection';
+import { TranslationError } from './lib/errors';
+import { backoffDelay } from './lib/retry';
+import { DEFAULT_PRICES, DEFAULT_USD_TO_IDR, addToLedger } from './lib/pricing';
+import type { ModelPrice, TokenUsage, UsageLedger } from './lib/pricing';
+import { loadSetting, saveSetting } from './lib/settings';
+import { DEFAULT_BUDGET, estimateSpend, findBudgetOverrun, formatSpend, ledgerSpend } from './lib/budget';
+import type { Budget, BudgetScope } from './lib/budget';
+import { DEFAULT_BATCH_LIMITS, estimateItemTokens, packByTokens } from './lib/tokens';
+import type { TokenEstimate } from './lib/tokens';
+import { MAX_ALTERNATIVE_ITEMS } from './lib/batch';
+import { createGlossaryChecker } from './lib/glossary';
+import type { GlossaryEntry, GlossaryViolation } from './lib/glossary';
+import { extractEntries, lineEndingStyle, serializeLtf } from './lib/ltf';
+import type { LineEnding, LtfDocument } from './lib/ltf';
+import { encodeText, mimeCharset } from './lib/encoding';
+import { createBlobSink, createFileSink, pickSaveFile, writeLtf } from './lib/ltfExport';
+import type { TextFormat } from './lib/encoding';
+import {
+  ENTRY_STATUSES,
+  entryStatus,
+  getEntryString,
+  ltfStringEdits,
+  pendingIndexes,
+  stringIndexes,
+  variantLabel,
+  withEntryString,
+  withStatus
+} from './lib/entries';
+import type { EntryStatus, LTFEntry, TranslationOrigin } from './lib/entries';
+import { EMPTY_QUERY, compileQuery, isQueryActive, keyPrefixCounts } from './lib/search';
+import type { EntryQuery } from './lib/search';
+import { applyReplacements } from './lib/replace';
+import type { ReplaceMatch, ReplaceOptions } from './lib/replace';
+import { EMPTY_HISTORY, diffEntries, recordOperation, redo, undo } from './lib/history';
+import type { History, Operation } from './lib/history';
+import { parseLtfFile } from './lib/ltfParser';
+import type { LtfParseJob, ParsedLtfFile } from './lib/ltfParser';
+import { upgradeEntries } from './lib/upgrade';
+import { applyUnits, unitsFromEntries } from './lib/interchange';
+import type { InterchangeFormat, InterchangeUnit } from './lib/interchange';
+import { createBaseline, deltaChangelog } from './lib/baseline';
+import type { Baseline, Delta } from './lib/baseline';
+import {
+  createProjectId,
+  deleteProject,
+  listProjects,
+  loadProject,
+  saveProjectDocument,
+  saveProjectState
+} from './lib/projects';
+import type { InterruptedRun, ProjectState, ProjectSummary } from './lib/projects';
+import type { UpgradeReport } from './lib/upgrade';
+import UsagePanel from './components/UsagePanel';
+import BudgetPanel from './components/BudgetPanel';
+import GlossaryPanel from './components/GlossaryPanel';
+import FileFormatPanel from './components/FileFormatPanel';
+import UpgradePanel from './components/UpgradePanel';
+import StaleNotice from './components/StaleNotice';
+import InterchangePanel from './components/InterchangePanel';
+import DeltaExportPanel from './components/DeltaExportPanel';
+import ImportReportPanel from './components/ImportReportPanel';
+import ProjectsPanel from './components/ProjectsPanel';
+import StatusBadge, { STATUS_LABELS } from './components/StatusBadge';
+import StatusFilterBar from './components/StatusFilterBar';
+import SearchPanel from './components/SearchPanel';
+import FindReplacePanel from './components/FindReplacePanel';
+import HistoryPanel from './components/HistoryPanel';
+import SelectionBar from './components/SelectionBar';
+import AlternativesPicker from './components/AlternativesPicker';
+
+const PROGRESS_SEGMENTS: Array<{ status: EntryStatus, className: string }> = [
+  { status: 'approved', className: 'bg-emerald-600' },
+  { status: 'reviewed', className: 'bg-green-500' },
+  { status: 'machine', className: 'bg-blue-400' },
+  { status: 'fallback', className: 'bg-orange-400' }
+];
+
+// Save a generated file through a temporary download link
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 }
 
 export default function Home() {
@@ -14,73 +97,274 @@ export default function Home() {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [fileName, setFileName] = useState('');
+  // The file as uploaded; entries[i] is ltfDocument.entries[i], and export writes the edits back into it
+  const [ltfDocument, setLtfDocument] = useState<LtfDocument | null>(null);
+  const [fileFormat, setFileFormat] = useState<TextFormat>({ encoding: 'utf-8', bom: false });
+  // Export reproduces the uploaded encoding and line endings unless one of these is set
+  const [exportFormat, setExportFormat] = useState<TextFormat | null>(null);
+  const [exportLineEnding, setExportLineEnding] = useState<LineEnding | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  // Entries whose key disappeared in a patch upgrade, kept so their translations are not lost
+  const [archivedEntries, setArchivedEntries] = useState<LTFEntry[]>([]);
+  const [upgradeReport, setUpgradeReport] = useState<UpgradeReport | null>(null);
+  // Translation snapshots taken at each .ltf export, for delta exports
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  // Entry opened from the import report, highlighted in the table
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
   const [isTranslating, setIsTranslating] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
   const [currentTranslatingIndex, setCurrentTranslatingIndex] = useState<number | null>(null);
   const [translationProgress, setTranslationProgress] = useState<{
     total: number;
     completed: number;
+    cached: number;
     current: string;
     startTime?: number;
-  }>({ total: 0, completed: 0, current: '' });
+  }>({ total: 0, completed: 0, cached: 0, current: '' });
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(50);
+  const [query, setQuery] = useState<EntryQuery>(EMPTY_QUERY);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set());
+  const [alternativeCount, setAlternativeCount] = useState(3);
+  // Candidates from a re-translate per entry index, then per STR-n line, until one is picked
+  const [alternatives, setAlternatives] = useState<Map<number, Record<number, string[]>>>(new Map());
   const [statusMessage, setStatusMessage] = useState<string>('');
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [sessionUsage, setSessionUsage] = useState<UsageLedger>({});
+  const [projectUsage, setProjectUsage] = useState<UsageLedger>({});
+  const [prices, setPrices] = useState<ModelPrice[]>(() => loadSetting('prices', DEFAULT_PRICES));
+  const [usdToIdr, setUsdToIdr] = useState<number>(() => loadSetting('usdToIdr', DEFAULT_USD_TO_IDR));
+  // Budget and glossary belong to the project; values saved by older versions seed the first one
+  const [budget, setBudget] = useState<Budget>(() => loadSetting('budget', DEFAULT_BUDGET));
+  const [runUsage, setRunUsage] = useState<UsageLedger>({});
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(() => loadSetting('glossary', []));
+  // Project the page is editing, autosaved to IndexedDB
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [interruptedRun, setInterruptedRun] = useState<InterruptedRun | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cancelTranslationRef = useRef(false);
+  const stopMessageRef = useRef<string | null>(null);
+  // Ledgers mirrored in refs so the budget guard reads the spend of batches that just finished
+  const projectUsageRef = useRef<UsageLedger>({});
+  const runUsageRef = useRef<UsageLedger>({});
+  // Model named in the latest usage report, whose price projects the spend of work not sent yet
+  const lastModelRef = useRef<string | undefined>(undefined);
+  const parseJobRef = useRef<LtfParseJob | null>(null);
+  const cancelExportRef = useRef(false);
+  // Latest entries, updated together with the state so streamed results and the history agree
+  const entriesRef = useRef<LTFEntry[]>([]);
+  // Last row clicked without Shift, where a Shift+click range starts
+  const selectionAnchorRef = useRef<number | null>(null);
+  const projectCreatedAtRef = useRef(0);
+  // Document last written to (or read from) IndexedDB, so it is only saved again when replaced
+  const savedDocumentRef = useRef<LtfDocument | null>(null);
+  const pendingSaveRef = useRef<ProjectState | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Constants - Aggressively optimized for maximum speed
   const MAX_FILE_SIZE = 150 * 1024 * 1024; // 150MB
   const LARGE_FILE_WARNING = 50 * 1024 * 1024; // 50MB
-  const BATCH_SIZE = 100; // BATCH PROCESSING: 100 entries per API request for maximum efficiency
   const CONCURRENT_BATCHES = 5; // REDUCED: 5 concurrent batches since each batch is much larger
   const DELAY_BETWEEN_BATCH_GROUPS = 100; // INCREASED: 100ms delay for larger batches
+  const MAX_BATCH_RETRIES = 3; // Client-side retries after the server has exhausted its own
+  const AUTOSAVE_DELAY = 1500;
+
+  const profile = useMemo(() => getProfile(profileId) ?? PROFILES[0], [profileId]);
+
+  const detectedLineEnding = useMemo(() => ltfDocument ? lineEndingStyle(ltfDocument) : null, [ltfDocument]);
 
   // Memoized calculations
+  // An entry counts as untranslated while any of its STR-n lines is still empty
   const untranslatedEntries = useMemo(() => {
-    return entries.filter(entry => entry.english && !entry.indonesian.trim());
+    return entries.filter(entry => pendingIndexes(entry).length > 0);
   }, [entries]);
 
   const untranslatedCount = useMemo(() => {
     return untranslatedEntries.length;
   }, [untranslatedEntries]);
 
+  const pendingLineCount = useMemo(() => {
+    return untranslatedEntries.reduce((sum, entry) => sum + pendingIndexes(entry).length, 0);
+  }, [untranslatedEntries]);
+
+  const translatedCount = useMemo(() => {
+    return entries.filter(entry => entry.english && pendingIndexes(entry).length === 0).length;
+  }, [entries]);
+
+  const staleCount = useMemo(() => {
+    return entries.filter(entry => entry.stale).length;
+  }, [entries]);
+
+  // Entries without English have nothing to translate and no status
+  const statusCounts = useMemo(() => {
+    const counts = Object.fromEntries(ENTRY_STATUSES.map(status => [status, 0])) as Record<EntryStatus, number>;
+    for (const entry of entries) {
+      if (entry.english) counts[entryStatus(entry)]++;
+    }
+    return counts;
+  }, [entries]);
+
+  // Typing stays responsive while a large file is filtered in the background
+  const deferredQuery = useDeferredValue(query);
+  const compiledQuery = useMemo(() => compileQuery(deferredQuery), [deferredQuery]);
+
+  // Indexes of the entries the table shows, in file order; pagination, Translate Page and filtered exports run over these
+  const visibleIndexes = useMemo(() => {
+    const indexes: number[] = [];
+    entries.forEach((entry, index) => {
+      if (compiledQuery.matches(entry)) indexes.push(index);
+    });
+    return indexes;
+  }, [entries, compiledQuery]);
+
+  const keyPrefixes = useMemo(() => keyPrefixCounts(entries), [entries]);
+  const filterActive = isQueryActive(deferredQuery);
+
+  const pageCount = Math.max(1, Math.ceil(visibleIndexes.length / itemsPerPage));
+
+  // Translated entries whose English contains a glossary term but whose translation lacks the required term
+  const glossaryViolations = useMemo(() => {
+    const check = createGlossaryChecker(glossary);
+    const violations = new Map<number, GlossaryViolation[]>();
+    entries.forEach((entry, index) => {
+      const found = new Map<string, GlossaryViolation>();
+      for (const stringIndex of stringIndexes(entry)) {
+        for (const violation of check(entry.english, getEntryString(entry, stringIndex))) {
+          found.set(violation.entry.source, violation);
+        }
+      }
+      if (found.size > 0) violations.set(index, Array.from(found.values()));
+    });
+    return violations;
+  }, [entries, glossary]);
+
   useEffect(() => {
     return () => {
       setStatusMessage('');
+      parseJobRef.current?.cancel();
     };
   }, []);
 
-  const handleIndonesianChange = useCallback((index: number, value: string) => {
-    setEntries(prevEntries =>
-      prevEntries.map((entry, i) =>
-        i === index ? { ...entry, indonesian: value } : entry
-      )
-    );
+  useEffect(() => {
+    saveSetting('prices', prices);
+  }, [prices]);
+
+  useEffect(() => {
+    saveSetting('usdToIdr', usdToIdr);
+  }, [usdToIdr]);
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(error => console.error('Project list error:', error));
   }, []);
 
-  const estimateCost = useCallback((tokens: number) => {
-    // GPT-4o pricing: $2.50 per 1M input tokens, $10.00 per 1M output tokens
-    // Assuming roughly equal input/output for translation
-    const inputCostPer1M = 2.50;
-    const outputCostPer1M = 10.00;
-    
-    // Estimate input tokens (source text) and output tokens (translated text)
-    const inputTokens = tokens;
-    const outputTokens = tokens * 1.2; // Assume output is 20% longer
-    
-    const inputCost = (inputTokens / 1000000) * inputCostPer1M;
-    const outputCost = (outputTokens / 1000000) * outputCostPer1M;
-    const totalCost = inputCost + outputCost;
-    
-    return {
-      inputTokens,
-      outputTokens,
-      totalCost: Math.max(totalCost, 0.01) // Minimum $0.01
+  const saveProject = useCallback((state: ProjectState) => {
+    saveProjectState(state)
+      .then(summary => setProjects(prev => [summary, ...prev.filter(project => project.id !== summary.id)]))
+      .catch(error => console.error('Project save error:', error));
+  }, []);
+
+  // Write a pending autosave now, before the page switches to another project
+  const flushAutosave = useCallback(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    if (pendingSaveRef.current) saveProject(pendingSaveRef.current);
+    pendingSaveRef.current = null;
+  }, [saveProject]);
+
+  // The parsed file only changes on upload or upgrade, so it is saved on its own and right away
+  useEffect(() => {
+    if (!projectId || !ltfDocument || savedDocumentRef.current === ltfDocument) return;
+    savedDocumentRef.current = ltfDocument;
+    saveProjectDocument(projectId, ltfDocument).catch(error => console.error('Project save error:', error));
+  }, [projectId, ltfDocument]);
+
+  // Everything else is saved AUTOSAVE_DELAY after a change. Changes arriving meanwhile join that
+  // save instead of postponing it, so a long run is stored as it goes.
+  useEffect(() => {
+    if (!projectId) return;
+
+    pendingSaveRef.current = {
+      id: projectId,
+      fileName,
+      fileFormat,
+      createdAt: projectCreatedAtRef.current,
+      entries,
+      archivedEntries,
+      baselines,
+      settings: { profileId, glossary, budget, exportFormat, exportLineEnding },
+      usage: projectUsage,
+      interruptedRun
+    };
+    if (saveTimerRef.current) return;
+
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      if (pendingSaveRef.current) saveProject(pendingSaveRef.current);
+      pendingSaveRef.current = null;
+    }, AUTOSAVE_DELAY);
+  }, [projectId, fileName, fileFormat, entries, archivedEntries, baselines, profileId, glossary, budget,
+    exportFormat, exportLineEnding, projectUsage, interruptedRun, saveProject]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
     };
   }, []);
 
+  // Every change to the entries goes through here and becomes one undoable operation;
+  // returns how many entries changed
+  const changeEntries = useCallback((
+    operation: Omit<Operation, 'at' | 'edits'>,
+    update: (prev: LTFEntry[]) => LTFEntry[]
+  ) => {
+    const prev = entriesRef.current;
+    const next = update(prev);
+    const edits = diffEntries(prev, next);
+    if (edits.length === 0) return 0;
+
+    entriesRef.current = next;
+    setEntries(next);
+    setHistory(prevHistory => recordOperation(prevHistory, { ...operation, at: Date.now(), edits }));
+    return edits.length;
+  }, []);
+
+  // A new file or project starts a new history and selection; its indexes mean nothing to the old ones
+  const loadEntries = useCallback((next: LTFEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+    setHistory(EMPTY_HISTORY);
+    setSelectedIndexes(new Set());
+    setAlternatives(new Map());
+    selectionAnchorRef.current = null;
+  }, []);
+
+  // Real usage reported by the API goes into the session, the current project and the current run ledger
+  const recordUsage = useCallback((usage: TokenUsage | undefined) => {
+    if (!usage) return;
+    lastModelRef.current = usage.model;
+    projectUsageRef.current = addToLedger(projectUsageRef.current, usage);
+    runUsageRef.current = addToLedger(runUsageRef.current, usage);
+    setSessionUsage(prev => addToLedger(prev, usage));
+    setProjectUsage(projectUsageRef.current);
+    setRunUsage(runUsageRef.current);
+  }, []);
+
+  const handleTranslationChange = useCallback((index: number, value: string, stringIndex = 1) => {
+    const key = entriesRef.current[index]?.key;
+    changeEntries(
+      { kind: 'edit', label: stringIndex === 1 ? `Edit ${key}` : `Edit ${key} STR-${stringIndex}`, mergeKey: `edit:${index}.${stringIndex}` },
+      prevEntries => prevEntries.map((entry, i) =>
+        i === index ? withStatus(withEntryString(entry, stringIndex, value), 'reviewed', 'human') : entry
+      )
+    );
+  }, [changeEntries]);
+
   const estimateTime = useCallback((remainingEntries: number) => {
     if (remainingEntries <= 0) return '0s';
     
@@ -134,7 +418,7 @@ export default function Home() {
     }
   }, []);
 
-  const cleanTextForTranslation = useCallback((text: string, comment?: string): { cleanText: string, placeholders: { [key: string]: string }, contextualText: string } => {
+  const cleanTextForTranslation = useCallback((text: string): { cleanText: string, placeholders: { [key: string]: string } } => {
     let cleanText = text;
     const placeholders: { [key: string]: string } = {};
     let placeholderIndex = 0;
@@ -175,13 +459,7 @@ export default function Home() {
     // Only clean up excessive spaces (but preserve single spaces and \n)
     cleanText = cleanText.replace(/[ \t]+/g, ' ').trim();
 
-    // Create contextual text with comment for better AI translation
-    let contextualText = cleanText;
-    if (comment && comment.trim()) {
-      contextualText = `${cleanText} [CONTEXT: ${comment.trim()}]`;
-    }
-
-    return { cleanText, placeholders, contextualText };
+    return { cleanText, placeholders };
   }, []);
 
   const restorePlaceholders = useCallback((translatedText: string, placeholders: { [key: string]: string }): string => {
@@ -204,238 +482,459 @@ export default function Home() {
     setStatusMessage('Membatalkan translasi...');
   }, []);
 
-  // New batch translation function for processing 100 entries at once
-  const translateBatch = useCallback(async (batchEntries: Array<{entry: Entry, index: number}>) => {
-    if (batchEntries.length === 0) return;
+  // Batch translation over the streaming endpoint. Every empty STR-n line of an entry is its own item,
+  // keyed by entry index and n, so a translation can only land on its own line, and each line is
+  // filled as soon as its item arrives.
+  // Failures are handled by error code: back off on rate limits and timeouts, halve batches that
+  // are too large, and stop the whole run when the provider rejects our credentials or quota.
+  // Results land in the history under operation, so a whole run undoes as one step
+  const translateBatch = useCallback(async (
+    batchEntries: Array<{entry: LTFEntry, index: number}>,
+    operation: { label: string, mergeKey: string }
+  ) => {
+    const prepared = new Map(batchEntries.flatMap(({entry, index}) => {
+      const cleaned = cleanTextForTranslation(entry.english);
+      return pendingIndexes(entry).map(stringIndex => [
+        stringIndex === 1 ? String(index) : `${index}.${stringIndex}`,
+        { entry, index, stringIndex, ...cleaned }
+      ] as const);
+    }));
+    if (prepared.size === 0) return;
+    const received = new Set<string>();
+
+    const applyItems = (items: Array<{ id: string, translation: string, cached?: boolean }>) => {
+      const results = new Map<number, Map<number, string>>();
+      // Per entry, a refusal outweighs a fresh translation, which outweighs a cache hit
+      const origins = new Map<number, TranslationOrigin>();
+      let appliedCount = 0;
+      let cachedCount = 0;
+
+      for (const { id, translation, cached } of items) {
+        const item = prepared.get(id);
+        if (!item || received.has(id) || !translation.trim()) continue;
+        received.add(id);
+        if (cached) cachedCount++;
+
+        // Use English text if AI rejected the translation, otherwise restore placeholders
+        const rejected = isRejectionResponse(translation);
+        const entryResults = results.get(item.index) ?? new Map<number, string>();
+        entryResults.set(item.stringIndex, rejected
+          ? item.entry.english
+          : restorePlaceholders(translation, item.placeholders));
+        results.set(item.index, entryResults);
+
+        const origin = rejected ? 'fallback' : cached ? 'cache' : 'machine';
+        const previous = origins.get(item.index);
+        if (previous !== 'fallback' && (previous !== 'machine' || origin === 'fallback')) {
+          origins.set(item.index, origin);
+        }
+        appliedCount++;
+      }
 
-    try {
-      // Prepare texts for batch processing with comments as context
-      const textsToTranslate = batchEntries.map(({entry}) => {
-        const { contextualText } = cleanTextForTranslation(entry.english, entry.comment);
-        return contextualText;
-      });
+      if (appliedCount === 0) return;
+
+      changeEntries({ kind: 'translate', ...operation }, prevEntries =>
+        prevEntries.map((e, entryIndex) => {
+          const translated = results.get(entryIndex);
+          if (!translated) return e;
+          let updated = e;
+          translated.forEach((text, stringIndex) => {
+            updated = withEntryString(updated, stringIndex, text);
+          });
+
+          const origin = origins.get(entryIndex) ?? 'machine';
+          if (origin === 'fallback') return withStatus(updated, 'fallback', 'fallback');
+          // Stays a fallback while another of its lines is still an English copy
+          const fallbackLeft = updated.status === 'fallback' &&
+            stringIndexes(updated).some(stringIndex => getEntryString(updated, stringIndex) === updated.english);
+          return fallbackLeft ? updated : withStatus(updated, 'machine', origin);
+        })
+      );
 
-      const response = await fetch('/api/translate', {
+      setTranslationProgress(prev => ({
+        ...prev,
+        completed: prev.completed + appliedCount,
+        cached: prev.cached + cachedCount
+      }));
+    };
+
+    const streamBatch = async (ids: string[]) => {
+      const response = await fetch('/api/translate/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ texts: textsToTranslate }),
+        body: JSON.stringify({
+          items: ids.map(id => {
+            const { entry, stringIndex, cleanText } = prepared.get(id)!;
+            return {
+              id,
+              text: cleanText,
+              context: entry.comment?.trim() || undefined,
+              variant: variantLabel(entry, stringIndex)
+            };
+          }),
+          profile: profileId,
+          glossary
+        }),
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new TranslationError(data.code || 'provider_error', data.details || data.error || `HTTP error! status: ${response.status}`, data.retryAfterMs);
       }
 
-      const data = await response.json();
-      
-      if (data.translatedTexts && Array.isArray(data.translatedTexts)) {
-        // Process each translated text
-        batchEntries.forEach(({entry, index}, i) => {
-          if (i < data.translatedTexts.length) {
-            const translatedText = data.translatedTexts[i];
-            
-            if (translatedText && translatedText.trim()) {
-              // Check if the response is a rejection/error message
-              if (isRejectionResponse(translatedText)) {
-                // Use English text if AI rejected the translation
-                setEntries(prevEntries =>
-                  prevEntries.map((e, entryIndex) =>
-                    entryIndex === index ? { ...e, indonesian: entry.english } : e
-                  )
-                );
-              } else {
-                // Restore placeholders in translated text
-                const { placeholders } = cleanTextForTranslation(entry.english, entry.comment);
-                const restoredText = restorePlaceholders(translatedText, placeholders);
-                setEntries(prevEntries =>
-                  prevEntries.map((e, entryIndex) =>
-                    entryIndex === index ? { ...e, indonesian: restoredText } : e
-                  )
-                );
-              }
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      let finished = false;
+
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        const items = [];
+        let streamError: TranslationError | null = null;
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line);
+          if (event.type === 'item') {
+            items.push(event);
+          } else if (event.type === 'usage') {
+            recordUsage(event.usage);
+          } else if (event.type === 'done') {
+            finished = true;
+            if (event.missing.length > 0) {
+              console.warn(`Batch returned without ${event.missing.length} translations:`, event.missing);
+              // Missing rows stay untranslated for the next run but count as processed here
+              setTranslationProgress(prev => ({ ...prev, completed: prev.completed + event.missing.length }));
             }
+          } else if (event.type === 'error') {
+            streamError = new TranslationError(event.code || 'provider_error', event.details || event.error, event.retryAfterMs);
           }
-        });
+        }
 
-        // Update progress
-        setTranslationProgress(prev => ({
-          ...prev,
-          completed: prev.completed + data.processedCount
-        }));
+        // Apply what arrived before any error so those rows are not translated twice
+        applyItems(items);
+        if (streamError) throw streamError;
       }
-    } catch (error) {
-      console.error('Batch translation error:', error);
-      // Fallback to individual translation for this batch
-      for (const {entry, index} of batchEntries) {
-        try {
-          await translateSingleEntry(entry, index);
-        } catch (singleError) {
-          console.error(`Failed to translate entry ${index}:`, singleError);
-        }
+
+      if (!finished) {
+        throw new TranslationError('provider_error', 'Stream ended before the batch finished');
       }
-    }
-  }, [entries, setEntries, setTranslationProgress]);
+    };
 
-  // Helper function for single entry translation (fallback)
-  const translateSingleEntry = useCallback(async (entry: Entry, index: number) => {
-    const { contextualText, placeholders } = cleanTextForTranslation(entry.english, entry.comment);
-    
-    const response = await fetch('/api/translate', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ text: contextualText }),
-    });
+    const runBatch = async (ids: string[], attempt: number): Promise<void> => {
+      try {
+        await streamBatch(ids);
+      } catch (rawError) {
+        const error = rawError instanceof TranslationError
+          ? rawError
+          : new TranslationError('provider_error', rawError instanceof Error ? rawError.message : String(rawError));
+        console.error('Batch translation error:', error);
+
+        const remaining = ids.filter(id => !received.has(id));
+        if (remaining.length === 0 || cancelTranslationRef.current) return;
+
+        if (error.code === 'auth' || error.code === 'quota' || error.code === 'budget_exceeded') {
+          // Nothing will succeed until the server config or the day changes, so stop instead of flooding the provider
+          cancelTranslationRef.current = true;
+          stopMessageRef.current = error.code === 'budget_exceeded'
+            ? `Translasi dihentikan: batas harian server tercapai. ${error.message}`
+            : `Translasi dihentikan: provider menolak request (${error.code}). ${error.message}`;
+          setStatusMessage(stopMessageRef.current);
+          return;
+        }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+        const splitAndRun = async (nextAttempt: number) => {
+          const middle = Math.ceil(remaining.length / 2);
+          await runBatch(remaining.slice(0, middle), nextAttempt);
+          await runBatch(remaining.slice(middle), nextAttempt);
+        };
 
-    const data = await response.json();
-    
-    if (data.translatedText && data.translatedText.trim()) {
-      if (isRejectionResponse(data.translatedText)) {
-        setEntries(prevEntries =>
-          prevEntries.map((e, i) =>
-            i === index ? { ...e, indonesian: entry.english } : e
-          )
-        );
-      } else {
-        const restoredText = restorePlaceholders(data.translatedText, placeholders);
-        setEntries(prevEntries =>
-          prevEntries.map((e, i) =>
-            i === index ? { ...e, indonesian: restoredText } : e
-          )
-        );
+        if (error.code === 'context_length' && remaining.length > 1) {
+          await splitAndRun(attempt);
+          return;
+        }
+
+        if (error.retryable && attempt < MAX_BATCH_RETRIES) {
+          const delay = error.retryAfterMs ?? backoffDelay(attempt, 2000, 60000);
+          setTranslationProgress(prev => ({
+            ...prev,
+            current: `Provider sibuk (${error.code}), mencoba lagi dalam ${Math.ceil(delay / 1000)}s...`
+          }));
+          await new Promise(resolve => setTimeout(resolve, delay));
+
+          // A timeout usually means the batch is too slow to finish in one call, so shrink it
+          if (error.code === 'timeout' && remaining.length > 1) {
+            await splitAndRun(attempt + 1);
+          } else {
+            await runBatch(remaining, attempt + 1);
+          }
+          return;
+        }
+
+        // Give up on these rows: they stay untranslated for the next run but count as processed here
+        setTranslationProgress(prev => ({ ...prev, completed: prev.completed + remaining.length }));
+        setStatusMessage(`${remaining.length} entries gagal diterjemahkan (${error.code}): ${error.message}`);
       }
-    }
-  }, [entries, setEntries]);
+    };
+
+    await runBatch(Array.from(prepared.keys()), 0);
+  }, [profileId, glossary, cleanTextForTranslation, restorePlaceholders, recordUsage, changeEntries]);
 
+  // Single row: goes through the batch pipeline so every empty STR-n variant of the entry is translated
   const translateEntry = useCallback(async (index: number) => {
     const entry = entries[index];
-    if (!entry.english || entry.indonesian.trim() !== '' || isTranslating) {
+    if (pendingIndexes(entry).length === 0 || isTranslating) {
       return;
     }
 
     setCurrentTranslatingIndex(index);
     
     try {
-      // Clean text and extract placeholders, include comment as context
-      const { contextualText, placeholders } = cleanTextForTranslation(entry.english, entry.comment);
-      
-      const response = await fetch('/api/translate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ text: contextualText }),
+      await translateBatch([{ entry, index }], { label: `Translate ${entry.key}`, mergeKey: `translate:${Date.now()}` });
+    } catch (error) {
+      console.error('Translation error:', error);
+      setStatusMessage(`Translation failed for ${entry.key}`);
+    } finally {
+      setCurrentTranslatingIndex(null);
+    }
+  }, [entries, isTranslating, translateBatch]);
+
+  // Re-translate rows whatever they hold: every STR-n line gets alternativeCount candidates
+  // that are shown next to the current text until the reviewer picks one
+  const requestAlternatives = useCallback(async (indexes: number[]) => {
+    const prepared = indexes
+      .filter(index => entriesRef.current[index]?.english)
+      .flatMap(index => {
+        const entry = entriesRef.current[index];
+        const cleaned = cleanTextForTranslation(entry.english);
+        return stringIndexes(entry).map(stringIndex => ({
+          id: stringIndex === 1 ? String(index) : `${index}.${stringIndex}`,
+          entry,
+          index,
+          stringIndex,
+          ...cleaned
+        }));
       });
+    if (prepared.length === 0 || isTranslating) return;
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (data.translatedText && data.translatedText.trim()) {
-        // Check if the response is a rejection/error message
-        if (isRejectionResponse(data.translatedText)) {
-          // Use English text if AI rejected the translation
-          setEntries(prevEntries =>
-            prevEntries.map((e, i) =>
-              i === index ? { ...e, indonesian: entry.english } : e
-            )
-          );
-        } else {
-          // Restore placeholders in translated text
-          const restoredText = restorePlaceholders(data.translatedText, placeholders);
-          setEntries(prevEntries =>
-            prevEntries.map((e, i) =>
-              i === index ? { ...e, indonesian: restoredText } : e
-            )
-          );
+    setIsTranslating(true);
+    let received = 0;
+    try {
+      for (let start = 0; start < prepared.length; start += MAX_ALTERNATIVE_ITEMS) {
+        const chunk = prepared.slice(start, start + MAX_ALTERNATIVE_ITEMS);
+        setStatusMessage(`Meminta ${alternativeCount} alternatif... ${start}/${prepared.length} baris`);
+
+        const response = await fetch('/api/translate/alternatives', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            items: chunk.map(({ id, entry, stringIndex, cleanText }) => ({
+              id,
+              text: cleanText,
+              context: entry.comment?.trim() || undefined,
+              variant: variantLabel(entry, stringIndex)
+            })),
+            count: alternativeCount,
+            profile: profileId,
+            glossary
+          }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new TranslationError(data.code || 'provider_error', data.details || data.error || `HTTP error! status: ${response.status}`, data.retryAfterMs);
         }
-      } else {
-        // Fallback: use English text if translation is empty or failed
-        setEntries(prevEntries =>
-          prevEntries.map((e, i) =>
-            i === index ? { ...e, indonesian: entry.english } : e
-          )
-        );
+        recordUsage(data.usage);
+
+        const results: Array<{ index: number, stringIndex: number, candidates: string[] }> = [];
+        for (const { id, index, stringIndex, placeholders } of chunk) {
+          const answers: string[] = data.alternatives?.[id] ?? [];
+          const candidates = Array.from(new Set(answers
+            .filter(text => text.trim() && !isRejectionResponse(text))
+            .map(text => restorePlaceholders(text, placeholders))));
+          if (candidates.length > 0) results.push({ index, stringIndex, candidates });
+        }
+        received += results.length;
+
+        setAlternatives(prev => {
+          const next = new Map(prev);
+          for (const { index, stringIndex, candidates } of results) {
+            next.set(index, { ...next.get(index), [stringIndex]: candidates });
+          }
+          return next;
+        });
       }
-    } catch (error) {
-      console.error('Translation error:', error);
-      // Fallback: use English text if translation fails
-      setEntries(prevEntries =>
-        prevEntries.map((e, i) =>
-          i === index ? { ...e, indonesian: entry.english } : e
-        )
-      );
-      setStatusMessage(`Translation failed for ${entry.key}, using original text`);
+      setStatusMessage(received > 0
+        ? `Alternatif siap untuk ${received} baris; pilih salah satu di tabel`
+        : 'Tidak ada alternatif yang bisa dipakai');
+    } catch (rawError) {
+      const error = rawError instanceof TranslationError
+        ? rawError
+        : new TranslationError('provider_error', rawError instanceof Error ? rawError.message : String(rawError));
+      console.error('Alternatives error:', error);
+      setStatusMessage(`Error: Gagal meminta alternatif (${error.message})`);
     } finally {
-      setCurrentTranslatingIndex(null);
+      setIsTranslating(false);
     }
-  }, [entries, isTranslating, cleanTextForTranslation, restorePlaceholders]);
+  }, [isTranslating, alternativeCount, profileId, glossary, cleanTextForTranslation, restorePlaceholders, recordUsage]);
+
+  // The replaced text stays reachable through undo. A candidate edited before use counts as the
+  // reviewer's own text
+  const pickAlternative = useCallback((index: number, stringIndex: number, text: string, edited: boolean) => {
+    changeEntries(
+      { kind: 'translate', label: `Alternatif ${entriesRef.current[index]?.key}` },
+      prevEntries => prevEntries.map((entry, i) =>
+        i === index ? withStatus(withEntryString(entry, stringIndex, text), 'reviewed', edited ? 'human' : 'machine') : entry
+      )
+    );
+    setAlternatives(prev => {
+      const next = new Map(prev);
+      const remaining = { ...next.get(index) };
+      delete remaining[stringIndex];
+      if (Object.keys(remaining).length > 0) next.set(index, remaining);
+      else next.delete(index);
+      return next;
+    });
+  }, [changeEntries]);
 
-  const translateAll = useCallback(async () => {
-    if (isTranslating || untranslatedCount === 0) return;
+  const dismissAlternatives = (index: number) => {
+    setAlternatives(prev => {
+      const next = new Map(prev);
+      next.delete(index);
+      return next;
+    });
+  };
 
+  // Shift+click selects every row the table shows between the anchor and this one
+  const toggleSelection = (index: number, range: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    const from = anchor === null ? -1 : visibleIndexes.indexOf(anchor);
+    const to = visibleIndexes.indexOf(index);
+
+    setSelectedIndexes(prev => {
+      const next = new Set(prev);
+      if (range && from !== -1 && to !== -1) {
+        for (const rangeIndex of visibleIndexes.slice(Math.min(from, to), Math.max(from, to) + 1)) next.add(rangeIndex);
+      } else if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+    if (!range) selectionAnchorRef.current = index;
+  };
+
+  // Shared loop for Translate All and Translate Page: entries are packed into requests by
+  // estimated tokens, so long news strings get smaller batches, and run one group of
+  // concurrent batches at a time. Before each group the budget guard projects its spend from what
+  // this run has spent per entry so far, and asks before going past the project or run cap.
+  const runTranslation = useCallback(async (
+    entriesToTranslate: Array<{entry: LTFEntry, index: number}>,
+    concurrentBatches: number,
+    labels: { start: string, done: string, history: string }
+  ) => {
+    const operation = { label: labels.history, mergeKey: `translate:${Date.now()}` };
     setIsTranslating(true);
     setIsCancelling(false);
     cancelTranslationRef.current = false;
-    
-    const entriesToTranslate = entries
-      .map((entry, index) => ({ entry, index }))
-      .filter(({ entry }) => entry.english && !entry.indonesian.trim());
+    stopMessageRef.current = null;
+    runUsageRef.current = {};
+    setRunUsage({});
 
     setTranslationProgress({
-      total: entriesToTranslate.length,
+      // Progress counts STR-n lines, so entries with variants weigh more
+      total: entriesToTranslate.reduce((sum, { entry }) => sum + pendingIndexes(entry).length, 0),
       completed: 0,
-      current: 'Memulai translasi...',
+      cached: 0,
+      current: labels.start,
       startTime: Date.now()
     });
 
-    let completed = 0;
+    const estimateEntry = ({ entry }: {entry: LTFEntry, index: number}): TokenEstimate => {
+      const estimate = estimateItemTokens(entry.english, entry.comment);
+      const lines = pendingIndexes(entry).length;
+      return { input: estimate.input * lines, output: estimate.output * lines };
+    };
+    const batches = packByTokens(entriesToTranslate, estimateEntry, DEFAULT_BATCH_LIMITS);
+    let dispatched = 0;
+    // Caps the user already agreed to exceed during this run
+    const approvedOverruns = new Set<BudgetScope>();
 
     try {
-      // BATCH PROCESSING: 100 entries per batch with 5 concurrent batches (500 entries per group)
-      const batchSize = 100;
-      const concurrentBatches = 5;
-      const entriesPerGroup = batchSize * concurrentBatches;
-
-      for (let groupStart = 0; groupStart < entriesToTranslate.length; groupStart += entriesPerGroup) {
+      for (let groupStart = 0; groupStart < batches.length; groupStart += concurrentBatches) {
         if (cancelTranslationRef.current) {
-          setStatusMessage('Translasi dibatalkan oleh user');
+          setStatusMessage(stopMessageRef.current ?? 'Translasi dibatalkan oleh user');
           break;
         }
 
-        const groupEntries = entriesToTranslate.slice(groupStart, groupStart + entriesPerGroup);
-        const batches = [];
+        const groupBatches = batches.slice(groupStart, groupStart + concurrentBatches);
+        const groupSize = groupBatches.reduce((sum, batch) => sum + batch.length, 0);
+
+        // With nothing spent yet to average over, the group is priced from its token estimate
+        const firstGroupEstimate = () => {
+          const tokens = groupBatches.flat().map(estimateEntry).reduce(
+            (sum, estimate) => ({ input: sum.input + estimate.input, output: sum.output + estimate.output }),
+            { input: 0, output: 0 }
+          );
+          return estimateSpend(tokens, budget.unit, prices, lastModelRef.current);
+        };
+
+        const checkBudget = () => {
+          const runSpent = ledgerSpend(runUsageRef.current, budget.unit, prices);
+          return findBudgetOverrun(
+            budget,
+            { run: runSpent, project: ledgerSpend(projectUsageRef.current, budget.unit, prices) },
+            dispatched > 0 ? (runSpent / dispatched) * groupSize : firstGroupEstimate(),
+            approvedOverruns
+          );
+        };
+
+        for (let overrun = checkBudget(); overrun; overrun = checkBudget()) {
+          const scopeLabel = overrun.scope === 'run' ? 'per run' : 'project';
+          const proceed = confirm(
+            `Budget ${scopeLabel} (${formatSpend(overrun.limit, budget.unit)}) akan terlampaui. ` +
+            `Terpakai ${formatSpend(overrun.spent, budget.unit)}, perkiraan setelah ${groupSize} entries berikutnya ${formatSpend(overrun.projected, budget.unit)}. ` +
+            'Lanjutkan translasi?'
+          );
+          if (!proceed) {
+            cancelTranslationRef.current = true;
+            stopMessageRef.current = `Translasi dijeda: budget ${scopeLabel} ${formatSpend(overrun.limit, budget.unit)} tercapai. ${dispatched} dari ${entriesToTranslate.length} entries sudah diproses.`;
+            break;
+          }
+          approvedOverruns.add(overrun.scope);
+        }
 
-        // Create batches of 100 entries each
-        for (let i = 0; i < groupEntries.length; i += batchSize) {
-          batches.push(groupEntries.slice(i, i + batchSize));
+        if (cancelTranslationRef.current) {
+          setStatusMessage(stopMessageRef.current ?? 'Translasi dibatalkan oleh user');
+          break;
         }
 
-        // Process batches concurrently using new batch translation
-        const batchPromises = batches.map(async (batch) => {
+        // Process batches concurrently
+        const batchPromises = groupBatches.map(async (batch, batchIndex) => {
           if (cancelTranslationRef.current) return;
 
           setTranslationProgress(prev => ({
             ...prev,
-            current: `Menerjemahkan batch ${Math.floor(groupStart / batchSize) + 1} (${batch.length} entries)`
+            current: `Menerjemahkan batch ${groupStart + batchIndex + 1}/${batches.length} (${batch.length} entries)`
           }));
 
-          await translateBatch(batch);
+          await translateBatch(batch, operation);
         });
 
         await Promise.all(batchPromises);
+        dispatched += groupSize;
       }
 
       if (!cancelTranslationRef.current) {
-        setStatusMessage(`Translasi selesai! ${translationProgress.completed} entries berhasil diterjemahkan.`);
+        setStatusMessage(`${labels.done} ${entriesToTranslate.length} entries diproses.`);
       }
 
     } catch (error) {
@@ -447,419 +946,426 @@ export default function Home() {
       setCurrentTranslatingIndex(null);
       cancelTranslationRef.current = false;
     }
-  }, [entries, isTranslating, untranslatedCount, cleanTextForTranslation, restorePlaceholders]);
+  }, [budget, prices, translateBatch]);
+
+  const translateAll = useCallback(async () => {
+    if (isTranslating || untranslatedCount === 0) return;
+
+    const entriesToTranslate = entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => pendingIndexes(entry).length > 0);
+
+    // Saved with the project while the run lasts; still set after a reload means it was cut off
+    setInterruptedRun({ startedAt: Date.now(), total: pendingLineCount });
+    try {
+      await runTranslation(entriesToTranslate, CONCURRENT_BATCHES, {
+        start: 'Memulai translasi...',
+        done: 'Translasi selesai!',
+        history: 'Translate All'
+      });
+    } finally {
+      setInterruptedRun(null);
+    }
+  }, [entries, isTranslating, untranslatedCount, pendingLineCount, runTranslation]);
 
   const translateCurrentPage = useCallback(async () => {
     if (isTranslating) return;
 
     const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    const pageEntries = entries.slice(startIndex, endIndex);
-    
-    const entriesToTranslate = pageEntries
-      .map((entry, relativeIndex) => ({ 
-        entry, 
-        index: startIndex + relativeIndex 
-      }))
-      .filter(({ entry }) => entry.english && !entry.indonesian.trim());
+    const entriesToTranslate = visibleIndexes
+      .slice(startIndex, startIndex + itemsPerPage)
+      .map(index => ({ entry: entries[index], index }))
+      .filter(({ entry }) => pendingIndexes(entry).length > 0);
 
     if (entriesToTranslate.length === 0) {
       setStatusMessage('Tidak ada entry yang perlu diterjemahkan di halaman ini');
       return;
     }
 
-    setIsTranslating(true);
-    setIsCancelling(false);
-    cancelTranslationRef.current = false;
-
-    setTranslationProgress({
-      total: entriesToTranslate.length,
-      completed: 0,
-      current: 'Memulai translasi halaman...',
-      startTime: Date.now()
+    // Fewer concurrent batches for a single page
+    await runTranslation(entriesToTranslate, 3, {
+      start: 'Memulai translasi halaman...',
+      done: 'Translasi halaman selesai!',
+      history: `Translate Page ${currentPage}`
     });
+  }, [entries, visibleIndexes, isTranslating, currentPage, itemsPerPage, runTranslation]);
 
-    try {
-      // BATCH: 100 entries per batch with 3 concurrent batches (300 entries per group)
-      const batchSize = 100;
-      const concurrentBatches = 3;
-      const entriesPerGroup = batchSize * concurrentBatches;
-
-      for (let groupStart = 0; groupStart < entriesToTranslate.length; groupStart += entriesPerGroup) {
-        if (cancelTranslationRef.current) {
-          setStatusMessage('Translasi dibatalkan oleh user');
-          break;
-        }
-
-        const groupEntries = entriesToTranslate.slice(groupStart, groupStart + entriesPerGroup);
-        const batches = [];
+  // With onlyVisible, the header plus just the entries the current filter shows
+  const exportLTF = useCallback(async (onlyVisible = false) => {
+    if (entries.length === 0 || !ltfDocument) {
+      alert('Tidak ada data untuk diekspor!');
+      return;
+    }
 
-        // Create batches
-        for (let i = 0; i < groupEntries.length; i += batchSize) {
-          batches.push(groupEntries.slice(i, i + batchSize));
-        }
+    const exportDocument = onlyVisible ? extractEntries(ltfDocument, visibleIndexes) : ltfDocument;
+    const exportEntries = onlyVisible ? visibleIndexes.map(index => entries[index]) : entries;
+    const exportName = fileName.replace('.ltf', onlyVisible ? '_filtered.ltf' : '_translated.ltf') ||
+      (onlyVisible ? 'filtered.ltf' : 'translated.ltf');
+    const format = exportFormat ?? fileFormat;
 
-        // Process batches concurrently
-        const batchPromises = batches.map(async (batch) => {
-          if (cancelTranslationRef.current) return;
+    // The picker has to open while the click still counts as a user gesture, before any other await
+    let handle: FileSystemFileHandle | null;
+    try {
+      handle = await pickSaveFile(exportName);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      handle = null;
+    }
 
-          setTranslationProgress(prev => ({
-            ...prev,
-            current: `Menerjemahkan batch ${batch.length} entries...`
-          }));
+    cancelExportRef.current = false;
+    setIsExporting(true);
+    setExportProgress(0);
 
-          await translateBatch(batch);
-        });
+    try {
+      const blobSink = createBlobSink(`text/plain;charset=${mimeCharset(format)}`);
+      const sink = handle ? await createFileSink(handle) : blobSink;
+
+      // Only translations that differ from the uploaded file are written; every other byte is kept
+      const completed = await writeLtf(exportDocument, {
+        strings: ltfStringEdits(exportDocument, exportEntries),
+        headers: { LANGNAME: profile.ltfLanguageName },
+        lineEnding: exportLineEnding ?? undefined
+      }, format, sink, {
+        onProgress: (written, total) => setExportProgress(Math.round((written / total) * 100)),
+        isCancelled: () => cancelExportRef.current
+      });
 
-        await Promise.all(batchPromises);
+      if (!completed) {
+        setStatusMessage('Export dibatalkan');
+        return;
       }
 
-      if (!cancelTranslationRef.current) {
-        setStatusMessage(`Translasi halaman selesai! ${translationProgress.completed} entries berhasil diterjemahkan.`);
+      if (!handle && blobSink.blob) {
+        downloadBlob(blobSink.blob, exportName);
       }
-
+      // A partial export is not a release, so it does not become a delta baseline
+      if (!onlyVisible) setBaselines(prev => [...prev, createBaseline(entries, handle?.name ?? exportName)]);
+      setStatusMessage(`Export selesai: ${handle?.name ?? exportName}`);
     } catch (error) {
-      console.error('Translation process error:', error);
-      setStatusMessage(`Error during translation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Export error:', error);
+      alert('Error saat mengekspor file!');
     } finally {
-      setIsTranslating(false);
-      setIsCancelling(false);
-      setCurrentTranslatingIndex(null);
-      cancelTranslationRef.current = false;
+      setIsExporting(false);
+      setExportProgress(0);
     }
-  }, [entries, isTranslating, currentPage, itemsPerPage, translateBatch]);
+  }, [entries, visibleIndexes, ltfDocument, fileName, profile, fileFormat, exportFormat, exportLineEnding]);
 
-  const exportLTF = useCallback(() => {
-    if (entries.length === 0) {
-      alert('Tidak ada data untuk diekspor!');
-      return;
-    }
+  const cancelExport = () => {
+    cancelExportRef.current = true;
+  };
 
-    try {
-      let content = 'LANGNAME: Bahasa Indonesia\n';
-      content += 'GENDERS: 0\n';
-      content += 'BASESTRINGS: 0\n\n';
-
-      const chunkSize = 1000;
-      for (let i = 0; i < entries.length; i += chunkSize) {
-        const chunk = entries.slice(i, i + chunkSize);
-        const chunkContent = chunk.map(entry => {
-          // Reconstruct the original format with comment if it exists
-          let englishText = entry.english;
-          if (entry.comment) {
-            englishText = `${entry.english}[COMMENT: ${entry.comment}]`;
-          }
-          
-          return `${entry.key}: ${englishText}\nSTR-1: ${entry.indonesian || ''}\n`;
-        }).join('\n');
-        content += chunkContent;
-        
-        if (i % (chunkSize * 5) === 0) {
-          // Allow UI to update every 5000 entries
-          setTimeout(() => {}, 0);
-        }
-      }
+  // Only the entries added or changed since the chosen baseline, for shipping fixes as a small patch
+  const exportDelta = useCallback((baseline: Baseline, delta: Delta) => {
+    if (!ltfDocument) return;
 
-      const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = fileName.replace('.ltf', '_translated.ltf') || 'translated.ltf';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      console.error('Export error:', error);
-      alert('Error saat mengekspor file!');
-    }
-  }, [entries, fileName]);
+    const changedEntries = delta.changes.map(change => change.index);
+    const patch = extractEntries(ltfDocument, changedEntries);
+    const content = serializeLtf(patch, {
+      strings: ltfStringEdits(patch, changedEntries.map(index => entries[index])),
+      headers: { LANGNAME: profile.ltfLanguageName },
+      lineEnding: exportLineEnding ?? undefined
+    });
+
+    const format = exportFormat ?? fileFormat;
+    const exportName = fileName.replace('.ltf', '_delta.ltf') || 'delta.ltf';
+    downloadBlob(new Blob([encodeText(content, format)], { type: `text/plain;charset=${mimeCharset(format)}` }), exportName);
+    setBaselines(prev => [...prev, createBaseline(entries, exportName)]);
+    setStatusMessage(`Delta sejak ${baseline.label}: ${delta.counts.added} entry baru, ${delta.counts.modified} diubah`);
+  }, [entries, ltfDocument, fileName, profile, fileFormat, exportFormat, exportLineEnding]);
+
+  const exportChangelog = useCallback((baseline: Baseline, delta: Delta) => {
+    const exportName = fileName.replace('.ltf', '_changelog.json') || 'changelog.json';
+    downloadBlob(new Blob([deltaChangelog(delta, baseline, fileName)], { type: 'application/json' }), exportName);
+  }, [fileName]);
+
+  const exportInterchange = useCallback((format: InterchangeFormat, onlyVisible: boolean) => {
+    const exportEntries = onlyVisible ? visibleIndexes.map(index => entries[index]) : entries;
+    const content = format.write(unitsFromEntries(exportEntries), {
+      fileName: fileName || 'translated.ltf',
+      sourceLanguage: 'en',
+      targetLanguage: profile.languageCode
+    });
 
-  const estimateTokens = useCallback((inputEntries: LTFEntry[]) => {
-    const entriesToProcess = inputEntries.filter(entry => 
-      entry.english && !entry.indonesian.trim()
+    downloadBlob(
+      new Blob([content], { type: `${format.mimeType};charset=utf-8` }),
+      (fileName.replace(/\.ltf$/i, '') || 'translated') + (onlyVisible ? '_filtered' : '') + format.extensions[0]
     );
-    
-    const totalWords = entriesToProcess.reduce((sum, entry) => {
-      return sum + entry.english.split(' ').length;
-    }, 0);
-    
-    // Rough estimate: 1 token ≈ 0.75 words for English
-    // Add some overhead for system prompts and formatting
-    const estimatedTokens = Math.ceil(totalWords / 0.75) + (entriesToProcess.length * 50);
-    return estimatedTokens;
-  }, []);
+  }, [entries, visibleIndexes, fileName, profile]);
+
+  // Translations edited in a CAT tool or spreadsheet come back by key
+  const importInterchange = useCallback((units: InterchangeUnit[], format: InterchangeFormat) => {
+    const { entries: imported, updated, unmatched } = applyUnits(entriesRef.current, units);
+    changeEntries({ kind: 'import', label: `Import ${format.label}` }, () => imported);
+    setStatusMessage(`Import ${format.label}: ${updated} entry diperbarui` + (unmatched > 0 ? `, ${unmatched} baris tidak cocok dengan key mana pun` : ''));
+  }, [changeEntries]);
+
+  const applyReplace = useCallback((matches: ReplaceMatch[], options: ReplaceOptions) => {
+    const changed = changeEntries(
+      { kind: 'replace', label: `Replace "${options.find}" → "${options.replace}"` },
+      prevEntries => applyReplacements(prevEntries, matches)
+    );
+    setStatusMessage(changed === 0
+      ? 'Tidak ada yang diganti: terjemahannya sudah berubah sejak preview'
+      : `Replace ${options.find} → ${options.replace}: ${changed} entry diubah`);
+  }, [changeEntries]);
+
+  const undoSteps = useCallback((steps: number) => {
+    let current = history;
+    let restored = entriesRef.current;
+    let undone = 0;
+    for (; undone < steps; undone++) {
+      const result = undo(current, restored);
+      if (!result) break;
+      current = result.history;
+      restored = result.entries;
+    }
+    if (undone === 0) return;
 
-  const getCurrentPageEntries = useCallback(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return entries.slice(startIndex, startIndex + itemsPerPage);
-  }, [entries, currentPage, itemsPerPage]);
+    entriesRef.current = restored;
+    setEntries(restored);
+    setHistory(current);
+    setStatusMessage(`Undo: ${history.past[history.past.length - undone].label}` + (undone > 1 ? ` dan ${undone - 1} langkah setelahnya` : ''));
+  }, [history]);
 
-  const parseLTFFile = async (content: string): Promise<LTFEntry[]> => {
-    const lines = content.split('\n');
-    const parsedEntries: LTFEntry[] = [];
-    
-    let currentKey = '';
-    let currentEnglish = '';
-    let currentComment = '';
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Skip header lines and empty lines
-      if (!line || line.startsWith('LANGNAME:') || line.startsWith('GENDERS:') || line.startsWith('BASESTRINGS:')) {
-        continue;
-      }
-      
-      // Check for key-value pattern: "key: english_text"
-      const keyValueMatch = line.match(/^([^:]+):\s*(.+)$/);
-      if (keyValueMatch && !line.startsWith('STR-')) {
-        currentKey = keyValueMatch[1].trim();
-        const fullText = keyValueMatch[2].trim();
-        
-        // Check if there's a comment in the text
-        const commentMatch = fullText.match(/^(.*?)\[COMMENT:\s*(.*?)\](.*)$/);
-        if (commentMatch) {
-          // Text has comment - separate them
-          const beforeComment = commentMatch[1].trim();
-          const commentText = commentMatch[2].trim();
-          const afterComment = commentMatch[3].trim();
-          
-          // Combine text parts (before and after comment)
-          currentEnglish = (beforeComment + ' ' + afterComment).trim();
-          currentComment = commentText;
-        } else {
-          // No comment found
-          currentEnglish = fullText;
-          currentComment = '';
-        }
-        continue;
-      }
-      
-      // Check for translation line: "STR-1: indonesian_text"
-      if (line.startsWith('STR-1:') && currentKey && currentEnglish) {
-        const strMatch = line.match(/STR-1:\s*(.*)/);
-        const indonesian = strMatch ? strMatch[1].trim() : '';
-        
-        parsedEntries.push({
-          key: currentKey,
-          english: currentEnglish,
-          indonesian: indonesian,
-          comment: currentComment || undefined
-        });
-        
-        // Reset for next entry
-        currentKey = '';
-        currentEnglish = '';
-        currentComment = '';
-      }
-      
-      // Performance optimization: yield control every 1000 lines
-      if (i % 1000 === 0 && i > 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
-    }
-    
-    return parsedEntries;
-  };
+  const undoLast = useCallback(() => undoSteps(1), [undoSteps]);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const redoNext = useCallback(() => {
+    const result = redo(history, entriesRef.current);
+    if (!result) return;
+
+    entriesRef.current = result.entries;
+    setEntries(result.entries);
+    setHistory(result.history);
+    setStatusMessage(`Redo: ${result.operation.label}`);
+  }, [history]);
 
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, also while typing in a translation;
+  // single-line inputs (search, replace, settings) keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (event.target instanceof HTMLInputElement) return;
+      const key = event.key.toLowerCase();
+      if (isTranslating || (key !== 'z' && key !== 'y')) return;
+
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) redoNext();
+      else undoLast();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isTranslating, undoLast, redoNext]);
+
+  const getCurrentPageEntries = useCallback(() => {
+    const startIndex = (currentPage - 1) * itemsPerPage;
+    return visibleIndexes.slice(startIndex, startIndex + itemsPerPage).map(index => entries[index]);
+  }, [entries, visibleIndexes, currentPage, itemsPerPage]);
+
+  // Size checks shared by the project upload and the upgrade upload; false means do not parse
+  const acceptFileSize = (file: File, input: HTMLInputElement) => {
     if (file.size > MAX_FILE_SIZE) {
       alert(`File terlalu besar! Maksimal ukuran file adalah ${MAX_FILE_SIZE / (1024 * 1024)}MB. File Anda: ${(file.size / (1024 * 1024)).toFixed(2)}MB`);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      return;
+      input.value = '';
+      return false;
     }
 
     if (file.size > LARGE_FILE_WARNING) {
       const proceed = confirm(`File cukup besar (${(file.size / (1024 * 1024)).toFixed(2)}MB). Proses parsing mungkin memakan waktu lama. Lanjutkan?`);
       if (!proceed) {
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-        return;
+        input.value = '';
+        return false;
       }
     }
 
+    return true;
+  };
+
+  // Parsed in a worker so a 150 MB file neither freezes the page nor sits in memory as one string
+  const parseUpload = async (file: File, input: HTMLInputElement): Promise<ParsedLtfFile | null> => {
+    parseJobRef.current?.cancel();
     setIsUploading(true);
     setUploadProgress(0);
+    setStatusMessage('Membaca file...');
+
+    const job = parseLtfFile(file, ({ bytesRead, totalBytes, entryCount }) => {
+      const progress = Math.round((bytesRead / totalBytes) * 100);
+      setUploadProgress(progress);
+      setStatusMessage(`Membaca file... ${progress}% (${(bytesRead / (1024 * 1024)).toFixed(1)} / ${(totalBytes / (1024 * 1024)).toFixed(1)}MB, ${entryCount} entri)`);
+    });
+    parseJobRef.current = job;
+
+    try {
+      const parsed = await job.result;
+      if (!parsed) setStatusMessage('Upload dibatalkan');
+      return parsed;
+    } catch (parseError) {
+      console.error('Error parsing file:', parseError);
+      setStatusMessage('Error: Gagal parsing file .ltf');
+      return null;
+    } finally {
+      if (parseJobRef.current === job) parseJobRef.current = null;
+      setIsUploading(false);
+      setUploadProgress(0);
+      input.value = '';
+    }
+  };
+
+  const clearStatusLater = () => {
+    setTimeout(() => {
+      setStatusMessage('');
+    }, 3000);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file || !acceptFileSize(file, input)) return;
+
+    const parsed = await parseUpload(file, input);
+    if (!parsed) return;
+
+    flushAutosave();
+    projectCreatedAtRef.current = Date.now();
+    setProjectId(createProjectId());
+    setInterruptedRun(null);
+    setFileName(file.name);
+    setFileFormat(parsed.format);
+    setExportFormat(null);
+    setExportLineEnding(null);
+    setLtfDocument(parsed.document);
+    loadEntries(parsed.entries);
+    setArchivedEntries([]);
+    setUpgradeReport(null);
+    setBaselines([]);
+    setFocusedIndex(null);
+    projectUsageRef.current = {};
+    setProjectUsage({});
+    setQuery(EMPTY_QUERY);
+    setCurrentPage(1);
+    setStatusMessage(`Berhasil memuat ${parsed.entries.length} entri terjemahan`);
+    clearStatusLater();
+  };
+
+  // Load the English .ltf of a new FM patch and carry the current translations into it by key
+  const handleUpgradeUpload = async (file: File, input: HTMLInputElement) => {
+    if (!acceptFileSize(file, input)) return;
+
+    const parsed = await parseUpload(file, input);
+    if (!parsed) return;
+
+    const { entries: upgraded, archived, report } = upgradeEntries(entries, parsed.document);
     setFileName(file.name);
-    setStatusMessage('Memulai upload file...');
+    setFileFormat(parsed.format);
+    setLtfDocument(parsed.document);
+    loadEntries(upgraded);
+    setArchivedEntries(prev => prev.concat(archived));
+    setUpgradeReport(report);
+    setCurrentPage(1);
+    setStatusMessage(`Upgrade selesai: ${upgraded.length} entri dari ${file.name}`);
+    clearStatusLater();
+  };
+
+  const openProject = useCallback(async (id: string) => {
+    flushAutosave();
 
     try {
-      for (let i = 0; i <= 30; i += 10) {
-        setUploadProgress(i);
-        setStatusMessage(`Membaca file... ${i}%`);
-        await new Promise(resolve => setTimeout(resolve, 100));
+      const project = await loadProject(id);
+      if (!project) {
+        setStatusMessage('Error: Project tidak ditemukan');
+        return;
       }
 
-      const reader = new FileReader();
-      
-      reader.onprogress = (e) => {
-        if (e.lengthComputable) {
-          const progress = Math.round((e.loaded / e.total) * 70) + 30;
-          setUploadProgress(progress);
-          setStatusMessage(`Memuat file... ${progress}%`);
-        }
-      };
-
-      reader.onload = async (e) => {
-        const content = e.target?.result as string;
-        
-        setUploadProgress(90);
-        setStatusMessage('Parsing file .ltf...');
-        
-        setTimeout(async () => {
-          try {
-            const parsedEntries = await parseLTFFile(content);
-            
-            setEntries(parsedEntries);
-            setCurrentPage(1);
-            setUploadProgress(100);
-            
-            setTimeout(() => {
-              setStatusMessage(`Berhasil memuat ${parsedEntries.length} entri terjemahan`);
-              setIsUploading(false);
-              setUploadProgress(0);
-              
-              setTimeout(() => {
-                setStatusMessage('');
-              }, 3000);
-            }, 500);
-          } catch (parseError) {
-            console.error('Error parsing file:', parseError);
-            setStatusMessage('Error: Gagal parsing file .ltf');
-            setIsUploading(false);
-            setUploadProgress(0);
-          }
-        }, 100);
-      };
+      savedDocumentRef.current = project.document;
+      projectCreatedAtRef.current = project.createdAt;
+      setProjectId(project.id);
+      setFileName(project.fileName);
+      setFileFormat(project.fileFormat);
+      setLtfDocument(project.document);
+      loadEntries(project.entries);
+      setArchivedEntries(project.archivedEntries);
+      setBaselines(project.baselines);
+      setProfileId(project.settings.profileId);
+      setGlossary(project.settings.glossary);
+      setBudget(project.settings.budget);
+      setExportFormat(project.settings.exportFormat);
+      setExportLineEnding(project.settings.exportLineEnding);
+      projectUsageRef.current = project.usage;
+      setProjectUsage(project.usage);
+      setInterruptedRun(project.interruptedRun);
+      setUpgradeReport(null);
+      setFocusedIndex(null);
+      setQuery(EMPTY_QUERY);
+      setCurrentPage(1);
+      setStatusMessage(`Project ${project.fileName} dibuka`);
+      clearStatusLater();
+    } catch (error) {
+      console.error('Project open error:', error);
+      setStatusMessage('Error: Gagal membuka project');
+    }
+  }, [flushAutosave, loadEntries]);
 
-      reader.onerror = () => {
-        setStatusMessage('Error: Gagal membaca file');
-        setIsUploading(false);
-        setUploadProgress(0);
-      };
+  const removeProject = useCallback(async (id: string) => {
+    if (pendingSaveRef.current?.id === id) {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+      pendingSaveRef.current = null;
+    }
 
-      reader.readAsText(file);
+    try {
+      await deleteProject(id);
+      setProjects(prev => prev.filter(project => project.id !== id));
+      // The open entries stay on screen but are no longer saved
+      if (id === projectId) setProjectId(null);
     } catch (error) {
-      setStatusMessage('Error: Gagal memproses file');
-      setIsUploading(false);
-      setUploadProgress(0);
+      console.error('Project delete error:', error);
+      setStatusMessage('Error: Gagal menghapus project');
     }
+  }, [projectId]);
+
+  const cancelUpload = () => {
+    parseJobRef.current?.cancel();
   };
 
-  // Function to check if AI response is a rejection
-  const isRejectionResponse = (text: string): boolean => {
-    const rejectionKeywords = [
-      // Indonesian rejection phrases
-      'tidak dapat menerjemahkan',
-      'tidak bisa menerjemahkan', 
-      'maaf',
-      'tidak lengkap',
-      'tidak jelas',
-      'berikan konteks',
-      'kalimat yang lebih lengkap',
-      'silakan berikan',
-      'tidak memahami',
-      'kurang jelas',
-      'tidak dapat membantu',
-      'saya tidak dapat membantu',
-      'dengan permintaan tersebut',
-      'permintaan tersebut',
-      // English rejection phrases - comprehensive coverage
-      'i\'m sorry',
-      'i am sorry',
-      'sorry',
-      'apologize',
-      'i apologize',
-      'i can\'t',
-      'i cannot',
-      'can\'t',
-      'cannot',
-      'unable',
-      'not able',
-      'i\'m unable',
-      'i am unable',
-      'i don\'t',
-      'i do not',
-      'don\'t',
-      'do not',
-      'won\'t',
-      'will not',
-      'i won\'t',
-      'i will not',
-      'assist with',
-      'help with',
-      'only assist',
-      'can only',
-      'only help',
-      'only translate',
-      'only work with',
-      'from english to',
-      'english to indonesian',
-      'provide it',
-      'please provide',
-      'if you have',
-      'happy to help',
-      'glad to help',
-      'be happy',
-      'be glad',
-      'i\'ll be',
-      'i will be',
-      'need more',
-      'more context',
-      'more information',
-      'additional context',
-      'unclear',
-      'not clear',
-      'incomplete',
-      'not complete',
-      'insufficient',
-      'not enough',
-      'understand what',
-      'what you\'re',
-      'you\'re asking',
-      'asking for',
-      'request',
-      'your request',
-      'this request',
-      'that request'
-    ];
-    
-    const lowerText = text.toLowerCase();
-    
-    // Check for rejection keywords
-    const hasRejectionKeyword = rejectionKeywords.some(keyword => lowerText.includes(keyword));
-    
-    // Additional pattern checks for common rejection structures
-    const rejectionPatterns = [
-      /i'm sorry.*but/i,
-      /sorry.*but/i,
-      /i can't.*because/i,
-      /i cannot.*because/i,
-      /unable to.*because/i,
-      /i don't.*understand/i,
-      /i do not.*understand/i,
-      /please.*provide/i,
-      /if you.*have/i,
-      /need.*more/i,
-      /not.*clear/i,
-      /not.*enough/i,
-      /only.*assist/i,
-      /only.*help/i,
-      /only.*translate/i
-    ];
-    
-    const hasRejectionPattern = rejectionPatterns.some(pattern => pattern.test(text));
-    
-    return hasRejectionKeyword || hasRejectionPattern;
+  const goToEntry = useCallback((index: number) => {
+    // An entry hidden by the filter is shown by dropping the filter
+    const position = visibleIndexes.indexOf(index);
+    if (position === -1) setQuery(EMPTY_QUERY);
+    setCurrentPage(Math.floor((position === -1 ? index : position) / itemsPerPage) + 1);
+    setFocusedIndex(index);
+  }, [visibleIndexes, itemsPerPage]);
+
+  const changeQuery = (next: EntryQuery) => {
+    setQuery(next);
+    setCurrentPage(1);
   };
 
+  const setEntryStatus = useCallback((index: number, status: Exclude<EntryStatus, 'untranslated' | 'fallback'>) => {
+    changeEntries(
+      { kind: 'review', label: `Status ${entriesRef.current[index]?.key}: ${STATUS_LABELS[status]}` },
+      prevEntries => prevEntries.map((entry, i) => i === index ? withStatus(entry, status) : entry)
+    );
+  }, [changeEntries]);
+
+  // Translating under a filter moves entries out of it, which can leave the current page past the end
+  if (currentPage > pageCount) setCurrentPage(pageCount);
+
+  useEffect(() => {
+    if (focusedIndex === null) return;
+    document.getElementById(`entry-${focusedIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedIndex, currentPage]);
+
+  // Keep the current translation of an entry whose English changed; checking it counts as a review
+  const acceptStale = useCallback((index: number) => {
+    changeEntries(
+      { kind: 'review', label: `${entriesRef.current[index]?.key}: terjemahan masih benar` },
+      prevEntries => prevEntries.map((entry, i) => {
+        if (i !== index) return entry;
+        const accepted = { ...entry, stale: undefined };
+        return entry.status === 'fallback' ? accepted : withStatus(accepted, 'reviewed');
+      })
+    );
+  }, [changeEntries]);
+
   return (
     <div className="w-full mx-auto">
       <div className="bg-white rounded-xl p-6 border border-[#e6e6e6]">
@@ -890,6 +1396,33 @@ export default function Home() {
               </label>
             </div>
 
+            {/* Translation Profile */}
+            <div className="mb-6 flex items-center justify-center space-x-2">
+              <label htmlFor="profile-select" className="text-sm text-gray-600">Profil bahasa:</label>
+              <select
+                id="profile-select"
+                value={profileId}
+                onChange={(e) => setProfileId(e.target.value)}
+                disabled={isTranslating}
+                className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800"
+              >
+                {PROFILES.map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Saved Projects */}
+            {projects.length > 0 && (
+              <ProjectsPanel
+                projects={projects}
+                activeProjectId={projectId}
+                onOpen={openProject}
+                onDelete={removeProject}
+                disabled={isTranslating || isUploading || isExporting}
+              />
+            )}
+
             {/* Upload Progress */}
             {isUploading && (
               <div className="mb-4">
@@ -899,7 +1432,15 @@ export default function Home() {
                     style={{ width: `${uploadProgress}%` }}
                   ></div>
                 </div>
-                <p className="text-sm text-gray-600">Upload Progress: {uploadProgress}%</p>
+                <div className="flex items-center justify-center space-x-4">
+                  <p className="text-sm text-gray-600">Upload Progress: {uploadProgress}%</p>
+                  <button
+                    onClick={cancelUpload}
+                    className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
               </div>
             )}
 
@@ -910,6 +1451,45 @@ export default function Home() {
               </div>
             )}
 
+            {/* Resume an Interrupted Translate All */}
+            {interruptedRun && !isTranslating && (
+              <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex flex-wrap items-center justify-between gap-3">
+                <span className="text-sm text-yellow-800">
+                  Translate All sebelumnya terhenti ({new Date(interruptedRun.startedAt).toLocaleString('id-ID')}):
+                  {' '}{Math.max(0, interruptedRun.total - pendingLineCount)} dari {interruptedRun.total} baris selesai.
+                </span>
+                <div className="flex items-center space-x-3 text-sm">
+                  <button
+                    onClick={translateAll}
+                    disabled={untranslatedCount === 0}
+                    className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500"
+                  >
+                    Lanjutkan Translate All
+                  </button>
+                  <button onClick={() => setInterruptedRun(null)} className="text-gray-600 hover:text-gray-800">
+                    Abaikan
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Import Lint Report */}
+            {ltfDocument && ltfDocument.diagnostics.length > 0 && (
+              <ImportReportPanel diagnostics={ltfDocument.diagnostics} onGoToEntry={goToEntry} />
+            )}
+
+            {/* Encoding and Line Endings */}
+            {ltfDocument && entries.length > 0 && (
+              <FileFormatPanel
+                detectedFormat={fileFormat}
+                detectedLineEnding={detectedLineEnding}
+                exportFormat={exportFormat}
+                onExportFormatChange={setExportFormat}
+                exportLineEnding={exportLineEnding}
+                onExportLineEndingChange={setExportLineEnding}
+              />
+            )}
+
             {/* File Info and Statistics */}
             {entries.length > 0 && (
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
@@ -919,7 +1499,7 @@ export default function Home() {
                 </div>
                 <div className="bg-green-50 p-4 rounded-lg border border-green-200">
                   <div className="text-2xl font-bold text-green-600">
-                    {entries.filter(entry => entry.indonesian.trim()).length}
+                    {translatedCount}
                   </div>
                   <div className="text-sm text-green-700">Translated</div>
                 </div>
@@ -929,7 +1509,7 @@ export default function Home() {
                 </div>
                 <div className="bg-purple-50 p-4 rounded-lg border border-purple-200">
                   <div className="text-2xl font-bold text-purple-600">
-                    {Math.round((entries.filter(entry => entry.indonesian.trim()).length / entries.length) * 100)}%
+                    {Math.round((translatedCount / entries.length) * 100)}%
                   </div>
                   <div className="text-sm text-purple-700">Progress</div>
                 </div>
@@ -939,19 +1519,114 @@ export default function Home() {
             {/* Progress Bar */}
             {entries.length > 0 && (
               <div className="mb-6">
-                <div className="bg-gray-200 rounded-full h-3 mb-2">
-                  <div 
-                    className="bg-gradient-to-r from-green-400 to-green-600 h-3 rounded-full transition-all duration-500"
-                    style={{ width: `${(entries.filter(entry => entry.indonesian.trim()).length / entries.length) * 100}%` }}
-                  ></div>
+                {/* Split by status, most finished first */}
+                <div className="flex bg-gray-200 rounded-full h-3 mb-2 overflow-hidden">
+                  {PROGRESS_SEGMENTS.map(({ status, className }) => (
+                    <div
+                      key={status}
+                      className={`${className} h-3 transition-all duration-500`}
+                      style={{ width: `${(statusCounts[status] / entries.length) * 100}%` }}
+                      title={`${STATUS_LABELS[status]}: ${statusCounts[status]}`}
+                    ></div>
+                  ))}
                 </div>
                 <p className="text-sm text-gray-600">
-                  Overall Progress: {entries.filter(entry => entry.indonesian.trim()).length}/{entries.length} entries completed
+                  Overall Progress: {translatedCount}/{entries.length} entries completed
+                  {' · '}
+                  {PROGRESS_SEGMENTS.map(({ status }) => `${statusCounts[status]} ${STATUS_LABELS[status].toLowerCase()}`).join(' · ')}
                 </p>
               </div>
             )}
           </div>
 
+          {/* Token Usage & Cost */}
+          {entries.length > 0 && (
+            <UsagePanel
+              sessionUsage={sessionUsage}
+              projectUsage={projectUsage}
+              prices={prices}
+              onPricesChange={setPrices}
+              usdToIdr={usdToIdr}
+              onUsdToIdrChange={setUsdToIdr}
+            />
+          )}
+
+          {/* Spending Caps */}
+          {entries.length > 0 && (
+            <BudgetPanel
+              budget={budget}
+              onBudgetChange={setBudget}
+              projectSpent={ledgerSpend(projectUsage, budget.unit, prices)}
+              runSpent={ledgerSpend(runUsage, budget.unit, prices)}
+              disabled={isTranslating}
+            />
+          )}
+
+          {/* Glossary */}
+          {entries.length > 0 && (
+            <GlossaryPanel
+              glossary={glossary}
+              onGlossaryChange={setGlossary}
+              violationCount={glossaryViolations.size}
+              disabled={isTranslating}
+            />
+          )}
+
+          {/* Undo / Redo History */}
+          {entries.length > 0 && (
+            <HistoryPanel
+              history={history}
+              onUndo={undoLast}
+              onRedo={redoNext}
+              onUndoSteps={undoSteps}
+              disabled={isTranslating}
+            />
+          )}
+
+          {/* Bulk Find and Replace */}
+          {entries.length > 0 && (
+            <FindReplacePanel
+              entries={entries}
+              filteredIndexes={filterActive ? visibleIndexes : undefined}
+              onApply={applyReplace}
+              disabled={isTranslating || isUploading}
+            />
+          )}
+
+          {/* CAT Tool / Spreadsheet Exchange */}
+          {entries.length > 0 && (
+            <InterchangePanel
+              onExport={exportInterchange}
+              onImport={importInterchange}
+              filteredCount={filterActive ? visibleIndexes.length : undefined}
+              disabled={isTranslating || isUploading}
+            />
+          )}
+
+          {/* Delta Export */}
+          {entries.length > 0 && (
+            <DeltaExportPanel
+              entries={entries}
+              baselines={baselines}
+              onExportDelta={exportDelta}
+              onExportChangelog={exportChangelog}
+              onDeleteBaseline={id => setBaselines(prev => prev.filter(baseline => baseline.id !== id))}
+              disabled={isTranslating || isExporting}
+            />
+          )}
+
+          {/* Patch Upgrade */}
+          {entries.length > 0 && (
+            <UpgradePanel
+              onUpgradeFile={handleUpgradeUpload}
+              report={upgradeReport}
+              onDismissReport={() => setUpgradeReport(null)}
+              archivedEntries={archivedEntries}
+              staleCount={staleCount}
+              disabled={isTranslating || isUploading}
+            />
+          )}
+
           {/* Translation Progress */}
           {isTranslating && (
             <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -980,7 +1655,10 @@ export default function Home() {
               <div className="mb-3">
                 <div className="flex items-center justify-between mb-1">
                   <span className="text-sm font-medium text-yellow-800">Batch Processing</span>
-                  <span className="text-xs text-yellow-600">100 entries per batch</span>
+                  <span className="text-xs text-yellow-600">
+                    Maks. {DEFAULT_BATCH_LIMITS.maxItems} entries per batch, dipaket per estimasi token
+                    {translationProgress.cached > 0 && ` · ${translationProgress.cached} dari translation memory`}
+                  </span>
                 </div>
                 <div className="bg-blue-100 rounded-full h-2">
                   <div 
@@ -1049,7 +1727,20 @@ export default function Home() {
           {/* Pagination Controls - Top */}
           {entries.length > 0 && (
             <div className="mb-6">
-              {Math.ceil(entries.length / itemsPerPage) > 1 && (
+              <SearchPanel
+                query={query}
+                onQueryChange={changeQuery}
+                keyPrefixes={keyPrefixes}
+                matchCount={visibleIndexes.length}
+                totalCount={entries.length}
+                error={compiledQuery.error}
+              />
+              <StatusFilterBar
+                counts={statusCounts}
+                filter={query.status}
+                onFilterChange={(status) => changeQuery({ ...query, status })}
+              />
+              {pageCount > 1 && (
                 <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-4">
                   <div className="flex items-center space-x-2">
                     <span className="text-sm text-gray-600">Page:</span>
@@ -1065,10 +1756,10 @@ export default function Home() {
 
                       {/* Page Numbers */}
                       {(() => {
-                        const totalPages = Math.ceil(entries.length / itemsPerPage);
+                        const totalPages = pageCount;
                         const maxVisiblePages = 5;
                         let startPage = Math.max(1, currentPage - Math.floor(maxVisiblePages / 2));
-                        let endPage = Math.min(totalPages, startPage + maxVisiblePages - 1);
+                        const endPage = Math.min(totalPages, startPage + maxVisiblePages - 1);
                         
                         // Adjust start page if we're near the end
                         if (endPage - startPage + 1 < maxVisiblePages) {
@@ -1135,8 +1826,8 @@ export default function Home() {
 
                       {/* Next Button */}
                       <button
-                        onClick={() => setCurrentPage(prev => Math.min(Math.ceil(entries.length / itemsPerPage), prev + 1))}
-                        disabled={currentPage === Math.ceil(entries.length / itemsPerPage)}
+                        onClick={() => setCurrentPage(prev => Math.min(pageCount, prev + 1))}
+                        disabled={currentPage === pageCount}
                         className="w-10 h-10 flex items-center justify-center border rounded-lg transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed border-gray-300 hover:bg-gray-50 text-gray-700"
                       >
                         →
@@ -1150,17 +1841,17 @@ export default function Home() {
                     <input
                       type="number"
                       min="1"
-                      max={Math.ceil(entries.length / itemsPerPage)}
+                      max={pageCount}
                       value={currentPage}
                       onChange={(e) => {
                         const page = parseInt(e.target.value);
-                        if (page >= 1 && page <= Math.ceil(entries.length / itemsPerPage)) {
+                        if (page >= 1 && page <= pageCount) {
                           setCurrentPage(page);
                         }
                       }}
                       className="w-16 px-2 py-1 border border-gray-300 rounded text-center text-sm"
                     />
-                    <span className="text-sm text-gray-600">of {Math.ceil(entries.length / itemsPerPage)}</span>
+                    <span className="text-sm text-gray-600">of {pageCount}</span>
                   </div>
 
                   {/* Items per page selector */}
@@ -1212,19 +1903,54 @@ export default function Home() {
                 {isTranslating ? 'Menerjemahkan...' : `Translate Page ${currentPage}`}
               </button>
               <button
-                onClick={exportLTF}
-                disabled={isTranslating}
+                onClick={() => exportLTF()}
+                disabled={isTranslating || isExporting}
                 className={`px-6 py-3 rounded-lg font-medium transition-colors ${
-                  isTranslating
+                  isTranslating || isExporting
                     ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                     : 'bg-purple-600 text-white hover:bg-purple-700'
                 }`}
               >
-                Export LTF
+                {isExporting ? `Mengekspor... ${exportProgress}%` : 'Export LTF'}
               </button>
+              {filterActive && !isExporting && (
+                <button
+                  onClick={() => exportLTF(true)}
+                  disabled={isTranslating || visibleIndexes.length === 0}
+                  className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+                    isTranslating || visibleIndexes.length === 0
+                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                      : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                  }`}
+                >
+                  Export Filtered ({visibleIndexes.length})
+                </button>
+              )}
+              {isExporting && (
+                <button
+                  onClick={cancelExport}
+                  className="px-6 py-3 rounded-lg font-medium transition-colors bg-red-500 text-white hover:bg-red-600"
+                >
+                  Cancel Export
+                </button>
+              )}
             </div>
           )}
 
+          {/* Row Selection */}
+          {entries.length > 0 && (
+            <SelectionBar
+              selectedCount={selectedIndexes.size}
+              visibleCount={visibleIndexes.length}
+              onSelectAllVisible={() => setSelectedIndexes(new Set(visibleIndexes))}
+              onClear={() => setSelectedIndexes(new Set())}
+              alternativeCount={alternativeCount}
+              onAlternativeCountChange={setAlternativeCount}
+              onRetranslate={() => requestAlternatives(Array.from(selectedIndexes).sort((a, b) => a - b))}
+              disabled={isTranslating}
+            />
+          )}
+
           {/* Entries Table */}
           {entries.length > 0 && (
             <div className="overflow-x-auto">
@@ -1232,71 +1958,154 @@ export default function Home() {
                 <table className="w-full border-collapse border border-gray-300">
                   <thead>
                     <tr className="bg-gray-100">
+                      <th className="border border-gray-300 px-2 py-3 w-8">
+                        <input
+                          type="checkbox"
+                          checked={visibleIndexes.length > 0 && visibleIndexes.every(index => selectedIndexes.has(index))}
+                          onChange={(e) => setSelectedIndexes(e.target.checked ? new Set(visibleIndexes) : new Set())}
+                          title="Pilih semua hasil filter"
+                        />
+                      </th>
                       <th className="border border-gray-300 px-4 py-3 text-left font-semibold text-gray-700 w-auto min-w-fit">Key</th>
                       <th className="border border-gray-300 px-4 py-3 text-left font-semibold text-gray-700 w-1/3">English</th>
-                      <th className="border border-gray-300 px-4 py-3 text-left font-semibold text-gray-700 w-1/3">Indonesian</th>
+                      <th className="border border-gray-300 px-4 py-3 text-left font-semibold text-gray-700 w-1/3">{profile.targetLanguage}</th>
                       <th className="border border-gray-300 px-4 py-3 text-center font-semibold text-gray-700 w-auto min-w-fit">Action</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {entries
+                    {visibleIndexes
                       .slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
-                      .map((entry, index) => {
-                        const actualIndex = (currentPage - 1) * itemsPerPage + index;
+                      .map(actualIndex => {
+                        const entry = entries[actualIndex];
+                        const entryAlternatives = alternatives.get(actualIndex);
                         return (
-                          <tr 
-                            key={actualIndex} 
-                            className={`hover:bg-gray-50 ${
-                              currentTranslatingIndex === actualIndex ? 'bg-yellow-100 border-yellow-300' : ''
-                            }`}
-                          >
-                            <td className="border border-gray-300 px-4 py-2 font-mono text-sm relative text-gray-800 w-auto min-w-fit">
-                              {entry.key}
-                              {currentTranslatingIndex === actualIndex && (
-                                <div className="absolute right-2 top-2">
-                                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-600"></div>
-                                </div>
-                              )}
-                            </td>
-                            <td className="border border-gray-300 px-4 py-2 text-sm text-gray-800 w-1/3">
-                              <div className="break-words">{entry.english}</div>
-                            </td>
-                            <td className="border border-gray-300 px-4 py-2 text-sm w-1/3">
-                              <textarea
-                                value={entry.indonesian}
-                                onChange={(e) => handleIndonesianChange(actualIndex, e.target.value)}
-                                className="w-full min-h-[60px] p-2 border border-gray-200 rounded resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
-                                placeholder="Indonesian translation..."
-                              />
-                            </td>
-                            <td className="border border-gray-300 px-4 py-2 text-center w-auto min-w-fit">
-                              <button
-                                onClick={() => translateEntry(actualIndex)}
-                                disabled={isTranslating || !entry.english || entry.indonesian.trim() !== ''}
-                                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                                  isTranslating || !entry.english || entry.indonesian.trim() !== ''
-                                    ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                                    : 'bg-blue-500 text-white hover:bg-blue-600'
-                                  }`}
-                                title={
-                                  !entry.english 
-                                    ? 'Tidak ada teks English' 
-                                    : entry.indonesian.trim() !== '' 
-                                    ? 'Sudah diterjemahkan' 
-                                    : 'Translate entry ini'
-                                }
-                              >
-                                {currentTranslatingIndex === actualIndex ? (
-                                  <div className="flex items-center">
-                                    <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-1"></div>
-                                    Translating...
+                          <Fragment key={actualIndex}>
+                            <tr 
+                              id={`entry-${actualIndex}`}
+                              className={`hover:bg-gray-50 ${
+                                currentTranslatingIndex === actualIndex ? 'bg-yellow-100 border-yellow-300'
+                                  : focusedIndex === actualIndex ? 'bg-orange-50' : ''
+                              }`}
+                            >
+                              <td className="border border-gray-300 px-2 py-2 text-center">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedIndexes.has(actualIndex)}
+                                  onClick={(e) => toggleSelection(actualIndex, e.shiftKey)}
+                                  readOnly
+                                />
+                              </td>
+                              <td className="border border-gray-300 px-4 py-2 font-mono text-sm relative text-gray-800 w-auto min-w-fit">
+                                <div>{entry.key}</div>
+                                {entry.english && (
+                                  <StatusBadge
+                                    status={entryStatus(entry)}
+                                    origin={entry.origin}
+                                    onChange={(status) => setEntryStatus(actualIndex, status)}
+                                    disabled={isTranslating}
+                                  />
+                                )}
+                                {currentTranslatingIndex === actualIndex && (
+                                  <div className="absolute right-2 top-2">
+                                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-600"></div>
                                   </div>
-                                ) : (
-                                  'Translate'
                                 )}
-                              </button>
-                            </td>
-                          </tr>
+                              </td>
+                              <td className="border border-gray-300 px-4 py-2 text-sm text-gray-800 w-1/3">
+                                <div className="break-words">{entry.english}</div>
+                                {entry.stale && (
+                                  <StaleNotice
+                                    previousEnglish={entry.stale.previousEnglish}
+                                    english={entry.english}
+                                    onAccept={() => acceptStale(actualIndex)}
+                                  />
+                                )}
+                              </td>
+                              <td className="border border-gray-300 px-4 py-2 text-sm w-1/3">
+                                {/* One textarea per STR-n line; the label only shows when the entry has variants */}
+                                {stringIndexes(entry).map((stringIndex, _, indexes) => (
+                                  <div key={stringIndex}>
+                                    {indexes.length > 1 && (
+                                      <div className="text-xs font-mono text-gray-500">STR-{stringIndex}</div>
+                                    )}
+                                    <textarea
+                                      value={getEntryString(entry, stringIndex)}
+                                      onChange={(e) => handleTranslationChange(actualIndex, e.target.value, stringIndex)}
+                                      className="w-full min-h-[60px] p-2 border border-gray-200 rounded resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
+                                      placeholder={`${profile.targetLanguage} translation...`}
+                                    />
+                                  </div>
+                                ))}
+                                {glossaryViolations.get(actualIndex)?.map(({ entry: term, expected }) => (
+                                  <div key={term.source} className="text-xs text-orange-600">
+                                    ⚠ Glosarium: &quot;{term.source}&quot; harus menjadi &quot;{expected}&quot;
+                                  </div>
+                                ))}
+                              </td>
+                              <td className="border border-gray-300 px-4 py-2 text-center w-auto min-w-fit">
+                                <button
+                                  onClick={() => translateEntry(actualIndex)}
+                                  disabled={isTranslating || pendingIndexes(entry).length === 0}
+                                  className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                                    isTranslating || pendingIndexes(entry).length === 0
+                                      ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                                      : 'bg-blue-500 text-white hover:bg-blue-600'
+                                    }`}
+                                  title={
+                                    !entry.english 
+                                      ? 'Tidak ada teks English' 
+                                      : pendingIndexes(entry).length === 0 
+                                      ? 'Sudah diterjemahkan' 
+                                      : 'Translate entry ini'
+                                  }
+                                >
+                                  {currentTranslatingIndex === actualIndex ? (
+                                    <div className="flex items-center">
+                                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-1"></div>
+                                      Translating...
+                                    </div>
+                                  ) : (
+                                    'Translate'
+                                  )}
+                                </button>
+                                <button
+                                  onClick={() => requestAlternatives([actualIndex])}
+                                  disabled={isTranslating || !entry.english}
+                                  className="mt-1 block mx-auto text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+                                  title={`Minta ${alternativeCount} alternatif terjemahan`}
+                                >
+                                  Alternatif
+                                </button>
+                              </td>
+                            </tr>
+                            {entryAlternatives && (
+                              <tr className="bg-blue-50/40">
+                                <td className="border border-gray-300 px-4 py-2" colSpan={5}>
+                                  <div className="flex items-center justify-between text-xs text-gray-600">
+                                    <span>Alternatif untuk <span className="font-mono">{entry.key}</span></span>
+                                    <button
+                                      onClick={() => dismissAlternatives(actualIndex)}
+                                      className="text-blue-600 hover:text-blue-800"
+                                    >
+                                      Tutup
+                                    </button>
+                                  </div>
+                                  {Object.entries(entryAlternatives).map(([stringIndex, candidates]) => (
+                                    <div key={`${stringIndex}:${candidates.join('\n')}`}>
+                                      {stringIndexes(entry).length > 1 && (
+                                        <div className="mt-2 text-xs font-mono text-gray-500">STR-{stringIndex}</div>
+                                      )}
+                                      <AlternativesPicker
+                                        current={getEntryString(entry, Number(stringIndex))}
+                                        candidates={candidates}
+                                        onPick={(text, edited) => pickAlternative(actualIndex, Number(stringIndex), text, edited)}
+                                      />
+                                    </div>
+                                  ))}
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
                         );
                       })}
                   </tbody>